@@ -0,0 +1,25 @@
+/**
+ * Convert a server name glob to a regular expression: `*` matches within one
+ * `/`-separated segment, `**` matches across segments and `?` matches a single character.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*'
+      i++
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+export function matchGlob(pattern: string, value: string): boolean {
+  return globToRegExp(pattern).test(value)
+}
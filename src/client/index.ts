@@ -1,2 +1,20 @@
 export { McpMqttClient, createMcpClient } from './mcp-client.js'
-export type { ServerInfo } from './mcp-client.js'
+export { RetryExhaustedError, DEFAULT_RETRYABLE_METHODS } from './retry.js'
+export type { RetryAttempt } from './retry.js'
+export { ServerGroup } from './server-group.js'
+export type { LoadBalancingStrategy, ServerGroupOptions, ServedResult } from './server-group.js'
+export { ToolCatalog } from './tool-catalog.js'
+export type { CatalogTool, ToolCatalogOptions } from './tool-catalog.js'
+export type {
+  ServerInfo,
+  ResourceUpdateListener,
+  ProgressCallback,
+  RequestOptions,
+  PageOptions,
+  CallToolOptions,
+  TypedCallToolResult,
+  ServerRequestContext,
+  ServerRequestHandler,
+  ServerNotificationHandler,
+  ServerNotificationContext,
+} from './mcp-client.js'
@@ -1,10 +1,28 @@
 import { EventEmitter } from 'events'
 import type { MqttClient } from 'mqtt'
+import { z } from 'zod'
 import type {
   McpMqttClientConfig,
+  AutoConnectOptions,
   MqttConnectionOptions,
   Tool,
+  ToolAnnotations,
+  CallToolResult,
   Resource,
+  ResourceTemplate,
+  Prompt,
+  GetPromptResult,
+  LoggingLevel,
+  CancelledNotification,
+  ProgressNotification,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ListRootsResult,
+  PromptReference,
+  ResourceReference,
+  CompleteResult,
+  ListToolsResult,
+  ListResourcesResult,
   JSONRPCRequest,
   JSONRPCResponse,
   ServerOnlineNotification,
@@ -12,12 +30,41 @@ import type {
 } from '../types.js'
 import {
   ServerOnlineNotificationSchema,
-  DisconnectedNotificationSchema,
   CallToolRequestSchema,
   ReadResourceRequestSchema,
+  GetPromptRequestSchema,
+  SubscribeRequestSchema,
+  ResourceUpdatedNotificationSchema,
+  SetLevelRequestSchema,
+  LoggingMessageNotificationSchema,
+  ProgressNotificationSchema,
+  CreateMessageRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
 } from '../types.js'
 import { UniversalMqttAdapter, parseUndefined } from '../shared/mqtt-adapter.js'
-import { createRequest, generateId, McpError } from '../shared/utils.js'
+import { createRequest, createResponse, generateId, McpError } from '../shared/utils.js'
+import {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  supportsProtocolFeature,
+  type ProtocolFeature,
+} from '../shared/protocol-version.js'
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  DEFAULT_RETRYABLE_METHODS,
+  RetryExhaustedError,
+  TransientError,
+  getRetryDelay,
+  isTransientError,
+} from './retry.js'
+import type { RetryAttempt } from './retry.js'
+import { matchGlob } from './glob.js'
+import { ServerGroup } from './server-group.js'
+import type { ServerGroupOptions } from './server-group.js'
+import { ToolCatalog } from './tool-catalog.js'
+import type { ToolCatalogOptions } from './tool-catalog.js'
+import { dedupeTopicFilters, isValidTopicFilter, matchTopicFilter } from '../shared/topic-filter.js'
+import { isZodSchema } from '../shared/zod-json-schema.js'
 
 export interface ServerInfo {
   serverId: string
@@ -25,8 +72,10 @@ export interface ServerInfo {
   description: string
   name: string
   version: string
+  protocolVersion?: string // Negotiated during initialization
   capabilities: {
     logging?: Record<string, any>
+    completions?: Record<string, any>
     prompts?: {
       listChanged?: boolean
     }
@@ -49,11 +98,65 @@ export interface ServerInfo {
   }
 }
 
+export type ResourceUpdateListener = (uri: string) => void
+
+export type ProgressCallback = (progress: Omit<ProgressNotification['params'], 'progressToken'>) => void
+
+export interface PageOptions {
+  cursor?: string | undefined // Opaque cursor from a previous page's nextCursor
+}
+
+export interface CallToolOptions<T> extends RequestOptions {
+  outputSchema?: z.ZodType<T, z.ZodTypeDef, any> // Validates and types `structuredContent`
+}
+
+export type TypedCallToolResult<T> = Omit<CallToolResult, 'structuredContent'> & { structuredContent?: T }
+
+export interface RequestOptions {
+  onProgress?: ProgressCallback // Requests progress notifications; each one also restarts the request timeout
+  signal?: AbortSignal // Aborting sends notifications/cancelled to the server and rejects the request
+}
+
+export interface ServerRequestContext {
+  serverId: string
+  requestId: string | number
+}
+
+export type ServerRequestHandler<P = Record<string, any>, R = any> = (
+  params: P,
+  context: ServerRequestContext,
+) => Promise<R>
+
+export interface ServerNotificationContext {
+  serverId: string
+}
+
+export type ServerNotificationHandler<P = Record<string, any>> = (
+  params: P,
+  context: ServerNotificationContext,
+) => void | Promise<void>
+
+// Server-to-client methods that require a client capability to be declared
+const CAPABILITY_GATED_METHODS: Record<string, 'sampling' | 'roots'> = {
+  'sampling/createMessage': 'sampling',
+  'roots/list': 'roots',
+}
+
+// Params schemas applied to built-in methods when a handler is registered without one
+const BUILTIN_PARAMS_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  'sampling/createMessage': CreateMessageRequestSchema.shape.params,
+}
+
+// Server-to-client methods that only exist from a given protocol version on
+const VERSION_GATED_METHODS: Record<string, ProtocolFeature> = {
+  'elicitation/create': 'elicitation',
+}
+
 export class McpMqttClient extends EventEmitter {
   private mqttAdapter: UniversalMqttAdapter
   private config: McpMqttClientConfig
   private mcpClientId: string
-  private serverNameFilter: string // Topic filter for server discovery
+  private serverNameFilters: string[] // Topic filters for server discovery, from config and the broker
 
   private pendingRequests = new Map<
     string | number,
@@ -61,21 +164,59 @@ export class McpMqttClient extends EventEmitter {
       resolve: (value: any) => void
       reject: (error: Error) => void
       timeout: NodeJS.Timeout
+      onProgress?: ProgressCallback
+      resetTimeout: () => void
+      serverId?: string
     }
   >()
 
   private discoveredServers = new Map<string, ServerInfo>() // serverId -> ServerInfo
   private connectedServers = new Map<string, ServerInfo>() // serverId -> ServerInfo
+  // method -> handler for server-to-client requests and notifications
+  private requestHandlers = new Map<string, { schema: z.ZodTypeAny | undefined; handler: ServerRequestHandler }>()
+  private notificationHandlers = new Map<string, ServerNotificationHandler>()
+  private resourceListeners = new Map<string, Map<string, Set<ResourceUpdateListener>>>() // serverId -> uri -> listeners
+  private lostServers = new Set<string>() // Initialized servers whose presence was cleared; restored when they return
+  private autoConnectFailed = new Set<string>() // Servers autoConnect gave up on until they announce themselves again
+  private toolAnnotations = new Map<string, Map<string, ToolAnnotations>>() // serverId -> tool name -> annotations
+  private offline = false // Broker connection lost; requests wait in offlineQueue until sessions are restored
+  private offlineQueue: Array<{ resume: () => void; fail: (error: Error) => void }> = []
+  private closed = false // disconnect() was called
+  private autoConnect: AutoConnectOptions | undefined
+  private autoInitializing = new Set<string>() // serverIds with an automatic initialization in progress
+  private pendingByServer = new Map<string, number>() // serverId -> requests awaiting a response
+  private serverGroups = new Map<string, ServerGroup>() // `${strategy}:${serverName}` -> group
 
   constructor(config: McpMqttClientConfig) {
     super()
     this.config = config
 
+    if (config.protocolVersions !== undefined && config.protocolVersions.length === 0) {
+      throw new Error('protocolVersions must not be empty')
+    }
+    const maxAttempts = config.retry?.maxAttempts
+    if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+      throw new Error('retry.maxAttempts must be a positive integer')
+    }
+
+    this.autoConnect = config.autoConnect === true ? {} : config.autoConnect || undefined
+    const maxConnections = this.autoConnect?.maxConnections
+    if (maxConnections !== undefined && (!Number.isInteger(maxConnections) || maxConnections < 1)) {
+      throw new Error('autoConnect.maxConnections must be a positive integer')
+    }
+
     // Generate unique client ID for each initialization
     this.mcpClientId = config.clientId || `mcp-client-${generateId()}`
 
-    // Default server name filter (can be overridden by broker)
-    this.serverNameFilter = '#' // Subscribe to all servers by default
+    for (const filter of config.serverNameFilters ?? []) {
+      if (!isValidTopicFilter(filter)) {
+        throw new Error(`Invalid server name filter: ${filter}`)
+      }
+    }
+    // Subscribe to all servers unless configured or suggested by the broker on connect
+    this.serverNameFilters = ['#']
+
+    this.registerBuiltinHandlers()
 
     // Build MQTT connection options from flat config, filtering undefined values
     const mqttOptions: MqttConnectionOptions = {
@@ -120,6 +261,9 @@ export class McpMqttClient extends EventEmitter {
   }
 
   async connect(): Promise<void> {
+    this.closed = false
+    this.offline = false
+
     try {
       // User properties are already set via mqttOptions in constructor
 
@@ -136,10 +280,27 @@ export class McpMqttClient extends EventEmitter {
         this.emit('error', error)
       })
 
+      // mqtt.js reconnects on its own; 'connect' fires again once it succeeds
+      this.mqttAdapter.on('close', () => {
+        this.handleConnectionLost()
+      })
+      this.mqttAdapter.on('reconnect', () => {
+        this.emit('reconnecting')
+      })
+      this.mqttAdapter.on('connect', () => {
+        this.handleReconnect()
+      })
+
+      // Subscribe to RPC responses first: servers may be initialized as soon as their retained presence arrives
+      for (const filter of this.serverNameFilters) {
+        await this.mqttAdapter.subscribe(`$mcp-rpc/${this.mcpClientId}/+/${filter}`, { nl: true })
+      }
+
       // Subscribe to server discovery and capability topics
-      await this.mqttAdapter.subscribe(`$mcp-server/presence/+/${this.serverNameFilter}`)
-      await this.mqttAdapter.subscribe(`$mcp-server/capability/+/${this.serverNameFilter}`)
-      await this.mqttAdapter.subscribe(`$mcp-rpc/${this.mcpClientId}/+/${this.serverNameFilter}`, { nl: true })
+      for (const filter of this.serverNameFilters) {
+        await this.mqttAdapter.subscribe(`$mcp-server/presence/+/${filter}`)
+        await this.mqttAdapter.subscribe(`$mcp-server/capability/+/${filter}`)
+      }
 
       // Start server discovery
       await this.discoverServers()
@@ -152,6 +313,11 @@ export class McpMqttClient extends EventEmitter {
   }
 
   async disconnect(): Promise<void> {
+    this.closed = true
+    for (const waiter of [...this.offlineQueue]) {
+      waiter.fail(new Error('Client disconnected'))
+    }
+
     // Send disconnected notification to all connected servers
     for (const [serverId, server] of this.connectedServers) {
       const disconnectedNotification: DisconnectedNotification = {
@@ -196,7 +362,172 @@ export class McpMqttClient extends EventEmitter {
     this.emit('disconnected')
   }
 
+  /**
+   * The broker starts a clean session on reconnect and published our will, so servers
+   * have dropped our sessions. Restore subscriptions, then initialize every previously
+   * connected server again and renew its resource subscriptions.
+   */
+  private async handleReconnect(): Promise<void> {
+    try {
+      await this.mqttAdapter.resubscribe()
+    } catch (error) {
+      this.emit('error', error)
+      return
+    }
+
+    await Promise.all([...this.connectedServers.keys()].map((serverId) => this.restoreServer(serverId)))
+
+    this.offline = false
+    for (const waiter of [...this.offlineQueue]) {
+      waiter.resume()
+    }
+    this.emit('reconnected')
+  }
+
+  private async restoreServer(serverId: string): Promise<void> {
+    try {
+      await this.initializeServer(serverId)
+      for (const uri of this.resourceListeners.get(serverId)?.keys() ?? []) {
+        await this.sendRpcRequestOnce(serverId, createRequest('resources/subscribe', { uri }))
+      }
+    } catch {
+      // The server went away while we were offline
+      this.connectedServers.delete(serverId)
+      this.resourceListeners.delete(serverId)
+      this.emit('serverDisconnected', serverId)
+      this.fillConnectionPool()
+    }
+  }
+
+  /**
+   * Responses to pending requests were lost with the connection. Fail them right away
+   * instead of letting them time out; retry-safe requests then wait for reconnection.
+   */
+  private handleConnectionLost(): void {
+    if (this.closed || this.offline) {
+      return
+    }
+    this.offline = true
+
+    for (const [, request] of this.pendingRequests) {
+      request.reject(new TransientError('Connection lost before a response arrived'))
+    }
+    this.pendingRequests.clear()
+  }
+
+  // The server is gone, so responses to requests sent to it will not arrive
+  private failPendingRequests(serverId: string): void {
+    for (const request of [...this.pendingRequests.values()]) {
+      if (request.serverId === serverId) {
+        request.reject(new TransientError(`Server disconnected: ${serverId}`))
+      }
+    }
+  }
+
+  /**
+   * Resolve once a server whose name matches `serverName` (a glob, see `autoConnect`)
+   * is initialized. Rejects after `timeout` milliseconds (default: 30000).
+   */
+  async waitForServer(serverName: string, options: { timeout?: number } = {}): Promise<ServerInfo> {
+    const matches = (server: ServerInfo) => matchGlob(serverName, server.serverName)
+
+    const connected = [...this.connectedServers.values()].find(matches)
+    if (connected) {
+      return connected
+    }
+
+    const timeoutMs = options.timeout ?? 30000
+    return new Promise((resolve, reject) => {
+      const onInitialized = (server: ServerInfo) => {
+        if (matches(server)) {
+          clearTimeout(timeout)
+          this.off('serverInitialized', onInitialized)
+          resolve(server)
+        }
+      }
+      const timeout = setTimeout(() => {
+        this.off('serverInitialized', onInitialized)
+        reject(new Error(`Timed out waiting for server: ${serverName} (${timeoutMs}ms)`))
+      }, timeoutMs)
+
+      this.on('serverInitialized', onInitialized)
+    })
+  }
+
+  private matchesAutoConnect(server: ServerInfo): boolean {
+    const filter = this.autoConnect?.serverName
+    if (filter === undefined) {
+      return true
+    }
+    return typeof filter === 'function'
+      ? filter(server.serverName, server.serverId)
+      : matchGlob(filter, server.serverName)
+  }
+
+  private shouldAutoConnect(server: ServerInfo): boolean {
+    if (!this.autoConnect || this.closed || this.autoInitializing.has(server.serverId)) {
+      return false
+    }
+    if (!this.matchesAutoConnect(server)) {
+      return false
+    }
+
+    // Connected servers are initialized again by handleReconnect once we are back online
+    if (this.offline && this.connectedServers.has(server.serverId)) {
+      return false
+    }
+
+    // Servers we are already connected to hold a slot in the pool
+    const { maxConnections } = this.autoConnect
+    const used = this.connectedServers.size + this.autoInitializing.size
+    return this.connectedServers.has(server.serverId) || maxConnections === undefined || used < maxConnections
+  }
+
+  private async autoInitialize(serverId: string): Promise<void> {
+    const policy = this.autoConnect?.retry ?? {}
+    const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+    this.autoInitializing.add(serverId)
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await this.initializeServer(serverId)
+          return
+        } catch (error) {
+          // Give up once the server is gone; it is tried again when it announces itself
+          if (attempt >= maxAttempts || this.closed || !this.discoveredServers.has(serverId)) {
+            this.autoConnectFailed.add(serverId)
+            this.emit('serverInitializationFailed', serverId, error)
+            return
+          }
+          await this.delay(getRetryDelay(policy, attempt, error), 'initialize')
+        }
+      }
+    } finally {
+      this.autoInitializing.delete(serverId)
+      // Hand the slot this server was holding to another discovered server
+      if (this.autoConnectFailed.has(serverId)) {
+        this.fillConnectionPool()
+      }
+    }
+  }
+
+  // Take up free slots with discovered servers that are not connected yet
+  private fillConnectionPool(): void {
+    for (const server of this.discoveredServers.values()) {
+      if (
+        !this.connectedServers.has(server.serverId) &&
+        !this.autoConnectFailed.has(server.serverId) &&
+        this.shouldAutoConnect(server)
+      ) {
+        this.autoInitialize(server.serverId)
+      }
+    }
+  }
+
   private handleBrokerSuggestions(): void {
+    this.serverNameFilters = dedupeTopicFilters(this.config.serverNameFilters ?? ['#'])
+
     // Handle broker-suggested server name filters from CONNACK user properties
     try {
       const connackProperties = this.mqttAdapter.getConnackProperties()
@@ -206,8 +537,16 @@ export class McpMqttClient extends EventEmitter {
         if (mcpServerNameFilters) {
           const filters = JSON.parse(mcpServerNameFilters)
           if (Array.isArray(filters) && filters.length > 0) {
-            this.serverNameFilter = filters[0] // Use first suggested filter
-            console.log(`Using broker-suggested server name filter: ${this.serverNameFilter}`)
+            const isValid = (filter: unknown) => typeof filter === 'string' && isValidTopicFilter(filter)
+            const suggested = filters.filter(isValid)
+            const rejected = filters.filter((filter) => !isValid(filter))
+            if (rejected.length > 0) {
+              console.warn('Ignoring invalid broker-suggested server name filters:', rejected)
+            }
+            if (suggested.length > 0) {
+              this.serverNameFilters = dedupeTopicFilters([...suggested, ...(this.config.serverNameFilters ?? [])])
+              console.log(`Using server name filters: ${this.serverNameFilters.join(', ')}`)
+            }
           }
         }
 
@@ -235,13 +574,14 @@ export class McpMqttClient extends EventEmitter {
       throw new Error(`Server not discovered: ${serverId}`)
     }
 
+    const protocolVersions = this.config.protocolVersions ?? SUPPORTED_PROTOCOL_VERSIONS
+    const { roots, sampling } = this.config.capabilities ?? {}
     const initializeRequest = createRequest('initialize', {
-      protocolVersion: '2024-11-05',
+      protocolVersion: protocolVersions[0],
+      // Only what was configured, so servers do not send requests nobody handles
       capabilities: {
-        roots: {
-          listChanged: this.config.capabilities?.roots?.listChanged ?? false,
-        },
-        sampling: this.config.capabilities?.sampling ?? {},
+        ...(roots && { roots: { listChanged: roots.listChanged ?? false } }),
+        ...(sampling && { sampling }),
       },
       clientInfo: { name: this.config.name, version: this.config.version },
     })
@@ -250,11 +590,18 @@ export class McpMqttClient extends EventEmitter {
     const controlTopic = `$mcp-server/${serverId}/${serverInfo.serverName}`
     const response = await this.sendRequest(controlTopic, initializeRequest, serverId)
 
+    // The server answers with another version when it cannot speak ours
+    const { protocolVersion } = response.result
+    if (!protocolVersions.includes(protocolVersion)) {
+      throw new Error(`Server ${serverId} offered unsupported protocol version: ${protocolVersion}`)
+    }
+
     // Update server info with initialization response
     const updatedServerInfo: ServerInfo = {
       ...serverInfo,
       name: response.result.serverInfo.name,
       version: response.result.serverInfo.version,
+      protocolVersion,
       capabilities: response.result.capabilities,
     }
 
@@ -278,13 +625,33 @@ export class McpMqttClient extends EventEmitter {
     return updatedServerInfo
   }
 
-  async listTools(serverId: string): Promise<Tool[]> {
-    const request = createRequest('tools/list', {})
-    const response = await this.sendRpcRequest(serverId, request)
-    return response.result.tools
+  /**
+   * Without options, fetch every page and return all tools. With `{ cursor }`,
+   * fetch a single page (omit the cursor for the first one) including `nextCursor`.
+   */
+  async listTools(serverId: string): Promise<Tool[]>
+  async listTools(serverId: string, options: PageOptions): Promise<ListToolsResult>
+  async listTools(serverId: string, options?: PageOptions): Promise<Tool[] | ListToolsResult> {
+    if (options) {
+      return this.listPage(serverId, 'tools/list', options.cursor)
+    }
+    return this.listAll<Tool>(serverId, 'tools/list', 'tools')
   }
 
-  async callTool(serverId: string, name: string, args?: Record<string, any>): Promise<any> {
+  async *iterateTools(serverId: string): AsyncGenerator<Tool> {
+    yield* this.iteratePages<Tool>(serverId, 'tools/list', 'tools')
+  }
+
+  /**
+   * Call a tool. Pass `outputSchema` to validate `structuredContent` on the
+   * client and get it back typed; error results are returned unvalidated.
+   */
+  async callTool<T = Record<string, any>>(
+    serverId: string,
+    name: string,
+    args?: Record<string, any>,
+    options?: CallToolOptions<T>,
+  ): Promise<TypedCallToolResult<T>> {
     const request = createRequest('tools/call', {
       name,
       arguments: args,
@@ -293,14 +660,46 @@ export class McpMqttClient extends EventEmitter {
     // Validate request format according to MCP specification
     CallToolRequestSchema.parse(request)
 
-    const response = await this.sendRpcRequest(serverId, request)
-    return response.result
+    const { outputSchema, ...requestOptions } = options ?? {}
+    const response = await this.sendRpcRequest(serverId, request, requestOptions)
+    const result: CallToolResult = response.result
+
+    if (outputSchema && !result.isError) {
+      if (result.structuredContent === undefined) {
+        throw new McpError(ErrorCode.INVALID_MESSAGE, `Tool ${name} returned no structured content`)
+      }
+      const parsed = outputSchema.safeParse(result.structuredContent)
+      if (!parsed.success) {
+        throw new McpError(
+          ErrorCode.INVALID_MESSAGE,
+          `Invalid structured content from tool ${name}`,
+          parsed.error.issues,
+        )
+      }
+      return { ...result, structuredContent: parsed.data }
+    }
+    return result as TypedCallToolResult<T>
   }
 
-  async listResources(serverId: string): Promise<Resource[]> {
-    const request = createRequest('resources/list', {})
-    const response = await this.sendRpcRequest(serverId, request)
-    return response.result.resources
+  /**
+   * Without options, fetch every page and return all resources. With `{ cursor }`,
+   * fetch a single page (omit the cursor for the first one) including `nextCursor`.
+   */
+  async listResources(serverId: string): Promise<Resource[]>
+  async listResources(serverId: string, options: PageOptions): Promise<ListResourcesResult>
+  async listResources(serverId: string, options?: PageOptions): Promise<Resource[] | ListResourcesResult> {
+    if (options) {
+      return this.listPage(serverId, 'resources/list', options.cursor)
+    }
+    return this.listAll<Resource>(serverId, 'resources/list', 'resources')
+  }
+
+  async *iterateResources(serverId: string): AsyncGenerator<Resource> {
+    yield* this.iteratePages<Resource>(serverId, 'resources/list', 'resources')
+  }
+
+  async listResourceTemplates(serverId: string): Promise<ResourceTemplate[]> {
+    return this.listAll<ResourceTemplate>(serverId, 'resources/templates/list', 'resourceTemplates')
   }
 
   async readResource(serverId: string, uri: string): Promise<any> {
@@ -313,20 +712,367 @@ export class McpMqttClient extends EventEmitter {
     return response.result
   }
 
+  /**
+   * Subscribe to updates of a resource. The server is only asked to subscribe
+   * for the first listener of a URI; the returned function removes this listener
+   * and unsubscribes from the server once no listeners remain.
+   */
+  async subscribeResource(
+    serverId: string,
+    uri: string,
+    listener: ResourceUpdateListener,
+  ): Promise<() => Promise<void>> {
+    let serverListeners = this.resourceListeners.get(serverId)
+    if (!serverListeners) {
+      serverListeners = new Map()
+      this.resourceListeners.set(serverId, serverListeners)
+    }
+
+    let listeners = serverListeners.get(uri)
+    if (!listeners) {
+      const request = createRequest('resources/subscribe', { uri })
+
+      // Validate request format according to MCP specification
+      SubscribeRequestSchema.parse(request)
+
+      await this.sendRpcRequest(serverId, request)
+
+      // Another caller may have subscribed while we were waiting for the response
+      listeners = serverListeners.get(uri) ?? new Set()
+      serverListeners.set(uri, listeners)
+    }
+    listeners.add(listener)
+
+    return () => this.unsubscribeResource(serverId, uri, listener)
+  }
+
+  async unsubscribeResource(serverId: string, uri: string, listener?: ResourceUpdateListener): Promise<void> {
+    const serverListeners = this.resourceListeners.get(serverId)
+    const listeners = serverListeners?.get(uri)
+    if (!serverListeners || !listeners) {
+      return
+    }
+
+    if (listener) {
+      listeners.delete(listener)
+    } else {
+      listeners.clear()
+    }
+    if (listeners.size > 0) {
+      return
+    }
+
+    serverListeners.delete(uri)
+    if (serverListeners.size === 0) {
+      this.resourceListeners.delete(serverId)
+    }
+
+    if (this.connectedServers.has(serverId)) {
+      const request = createRequest('resources/unsubscribe', { uri })
+      await this.sendRpcRequest(serverId, request)
+    }
+  }
+
+  async listPrompts(serverId: string): Promise<Prompt[]> {
+    return this.listAll<Prompt>(serverId, 'prompts/list', 'prompts')
+  }
+
+  private async listPage(serverId: string, method: string, cursor?: string): Promise<any> {
+    const request = createRequest(method, cursor !== undefined ? { cursor } : {})
+    const response = await this.sendRpcRequest(serverId, request)
+
+    if (method === 'tools/list') {
+      // Annotations decide whether a tools/call may be retried
+      const annotations = this.toolAnnotations.get(serverId) ?? new Map<string, ToolAnnotations>()
+      for (const tool of (response.result.tools ?? []) as Tool[]) {
+        if (tool.annotations) {
+          annotations.set(tool.name, tool.annotations)
+        } else {
+          annotations.delete(tool.name)
+        }
+      }
+      this.toolAnnotations.set(serverId, annotations)
+    }
+    return response.result
+  }
+
+  private async *iteratePages<T>(serverId: string, method: string, key: string): AsyncGenerator<T> {
+    const seenCursors = new Set<string>()
+    let cursor: string | undefined
+
+    do {
+      const result = await this.listPage(serverId, method, cursor)
+      yield* (result[key] ?? []) as T[]
+
+      cursor = result.nextCursor
+      if (cursor !== undefined) {
+        // Guard against servers that hand out the same cursor forever
+        if (seenCursors.has(cursor)) {
+          throw new Error(`Repeated cursor from ${method}: ${cursor}`)
+        }
+        seenCursors.add(cursor)
+      }
+    } while (cursor !== undefined)
+  }
+
+  private async listAll<T>(serverId: string, method: string, key: string): Promise<T[]> {
+    const items: T[] = []
+    for await (const item of this.iteratePages<T>(serverId, method, key)) {
+      items.push(item)
+    }
+    return items
+  }
+
+  async getPrompt(serverId: string, name: string, args?: Record<string, string>): Promise<GetPromptResult> {
+    const request = createRequest('prompts/get', {
+      name,
+      arguments: args,
+    })
+
+    // Validate request format according to MCP specification
+    GetPromptRequestSchema.parse(request)
+
+    const response = await this.sendRpcRequest(serverId, request)
+    return response.result
+  }
+
+  /**
+   * Handle requests sent by servers, such as `sampling/createMessage` or `roots/list`, replacing
+   * the built-in handler if there is one. With a schema, params are validated (INVALID_PARAMS on
+   * failure) and the handler receives the parsed value. Capability-gated methods require the
+   * matching capability in `McpMqttClientConfig.capabilities`.
+   */
+  setRequestHandler(
+    method: 'sampling/createMessage',
+    handler: ServerRequestHandler<CreateMessageRequest['params'], CreateMessageResult>,
+  ): void
+  setRequestHandler(method: 'roots/list', handler: ServerRequestHandler<Record<string, never>, ListRootsResult>): void
+  setRequestHandler<S extends z.ZodTypeAny>(method: string, schema: S, handler: ServerRequestHandler<z.infer<S>>): void
+  setRequestHandler(method: string, handler: ServerRequestHandler): void
+  setRequestHandler(
+    method: string,
+    schemaOrHandler: z.ZodTypeAny | ServerRequestHandler<any, any>,
+    handlerOrUndefined?: ServerRequestHandler<any, any>,
+  ): void {
+    const schema = isZodSchema(schemaOrHandler) ? schemaOrHandler : BUILTIN_PARAMS_SCHEMAS[method]
+    const handler = isZodSchema(schemaOrHandler) ? handlerOrUndefined : schemaOrHandler
+
+    const capability = CAPABILITY_GATED_METHODS[method]
+    if (capability && !this.config.capabilities?.[capability]) {
+      throw new Error(`Client does not declare the ${capability} capability required for ${method}`)
+    }
+    if (typeof handler !== 'function') {
+      throw new Error(`Request handler must be a function: ${method}`)
+    }
+    this.requestHandlers.set(method, { schema, handler })
+  }
+
+  // Removing a built-in method (such as ping) makes it answer METHOD_NOT_FOUND
+  removeRequestHandler(method: string): void {
+    this.requestHandlers.delete(method)
+  }
+
+  /**
+   * Handle notifications sent by servers, replacing the built-in handler if there is one.
+   * Every notification is still emitted as 'serverNotification'.
+   */
+  setNotificationHandler(method: string, handler: ServerNotificationHandler): void {
+    if (typeof handler !== 'function') {
+      throw new Error(`Notification handler must be a function: ${method}`)
+    }
+    this.notificationHandlers.set(method, handler)
+  }
+
+  removeNotificationHandler(method: string): void {
+    this.notificationHandlers.delete(method)
+  }
+
+  /**
+   * Send any request method to a server, for example one registered with the server's
+   * `setRequestHandler`. The result is validated against `resultSchema`.
+   */
+  async request<S extends z.ZodTypeAny>(
+    serverId: string,
+    method: string,
+    params: Record<string, any> | undefined,
+    resultSchema: S,
+    options?: RequestOptions,
+  ): Promise<z.infer<S>> {
+    const request = createRequest(method, params ?? {})
+    const response = await this.sendRpcRequest(serverId, request, options)
+
+    const parsed = resultSchema.safeParse(response.result)
+    if (!parsed.success) {
+      throw new McpError(ErrorCode.INVALID_MESSAGE, `Invalid result for ${method}`, parsed.error.issues)
+    }
+    return parsed.data
+  }
+
+  /**
+   * Ask a server for suggested values of a prompt argument or resource template variable.
+   * `contextArguments` carries the values of other, already filled-in arguments.
+   */
+  async complete(
+    serverId: string,
+    ref: PromptReference | ResourceReference,
+    argument: { name: string; value: string },
+    contextArguments?: Record<string, string>,
+  ): Promise<CompleteResult['completion']> {
+    const request = createRequest('completion/complete', {
+      ref,
+      argument,
+      ...(contextArguments && { context: { arguments: contextArguments } }),
+    })
+
+    // Validate request format according to MCP specification
+    CompleteRequestSchema.parse(request)
+
+    const response = await this.sendRpcRequest(serverId, request)
+    return response.result.completion
+  }
+
+  async setLoggingLevel(serverId: string, level: LoggingLevel): Promise<void> {
+    const request = createRequest('logging/setLevel', { level })
+
+    // Validate request format according to MCP specification
+    SetLevelRequestSchema.parse(request)
+
+    await this.sendRpcRequest(serverId, request)
+  }
+
   async ping(serverId: string): Promise<boolean> {
     const request = createRequest('ping', {})
     const response = await this.sendRpcRequest(serverId, request)
     return response.result.pong === true
   }
 
-  private async sendRpcRequest(serverId: string, request: JSONRPCRequest): Promise<JSONRPCResponse> {
+  /**
+   * Send a request to an initialized server. While the broker connection is down the
+   * request waits until sessions are restored. Retry-safe requests are sent again after
+   * transient failures, following the `retry` policy.
+   */
+  private async sendRpcRequest(
+    serverId: string,
+    request: JSONRPCRequest,
+    options?: RequestOptions,
+  ): Promise<JSONRPCResponse> {
+    const policy = this.config.retry ?? {}
+    const maxAttempts = this.isRetrySafe(serverId, request.method, request.params)
+      ? (policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)
+      : 1
+    const attempts: RetryAttempt[] = []
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now()
+      try {
+        await this.waitUntilOnline(request.method, options?.signal)
+
+        // A new id per attempt, so a late response to an earlier attempt is ignored
+        const current = attempt === 1 ? request : { ...request, id: generateId() }
+        return await this.sendRpcRequestOnce(serverId, current, options)
+      } catch (error) {
+        if (maxAttempts === 1 || !isTransientError(error)) {
+          throw error
+        }
+
+        attempts.push({ attempt, error: error as Error, durationMs: Date.now() - startedAt })
+        if (attempt >= maxAttempts) {
+          throw new RetryExhaustedError(request.method, attempts)
+        }
+        await this.delay(getRetryDelay(policy, attempt, error), request.method, options?.signal)
+      }
+    }
+  }
+
+  /**
+   * Whether a request can be sent again without extra effects: `tools/call` for tools the server
+   * annotated as idempotent or read-only (seen in `listTools`), otherwise `retry.retryableMethods`.
+   */
+  isRetrySafe(serverId: string, method: string, params?: Record<string, any>): boolean {
+    if (method === 'tools/call') {
+      const annotations = this.toolAnnotations.get(serverId)?.get(params?.name)
+      return annotations?.idempotentHint === true || annotations?.readOnlyHint === true
+    }
+    return (this.config.retry?.retryableMethods ?? DEFAULT_RETRYABLE_METHODS).includes(method)
+  }
+
+  // Park a request while offline; it is bounded by the method's timeout like a sent request
+  private async waitUntilOnline(method: string, signal?: AbortSignal): Promise<void> {
+    if (!this.offline) {
+      return
+    }
+    if (signal?.aborted) {
+      throw new Error(`Request cancelled: ${method}`)
+    }
+
+    const timeoutMs = this.getRequestTimeout(method)
+    await new Promise<void>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timeout)
+        signal?.removeEventListener('abort', onAbort)
+        this.offlineQueue = this.offlineQueue.filter((queued) => queued !== waiter)
+      }
+      const waiter = {
+        resume: () => {
+          settle()
+          resolve()
+        },
+        fail: (error: Error) => {
+          settle()
+          reject(error)
+        },
+      }
+      const onAbort = () => waiter.fail(new Error(`Request cancelled: ${method}`))
+      const timeout = setTimeout(
+        () => waiter.fail(new Error(`Request timeout: ${method} (offline for ${timeoutMs}ms)`)),
+        timeoutMs,
+      )
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.offlineQueue.push(waiter)
+    })
+  }
+
+  private async delay(ms: number, method: string, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw new Error(`Request cancelled: ${method}`)
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(new Error(`Request cancelled: ${method}`))
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  private async sendRpcRequestOnce(
+    serverId: string,
+    request: JSONRPCRequest,
+    options?: RequestOptions,
+  ): Promise<JSONRPCResponse> {
     const serverInfo = this.connectedServers.get(serverId)
     if (!serverInfo) {
       throw new Error(`Server not connected: ${serverId}`)
     }
 
     const rpcTopic = `$mcp-rpc/${this.mcpClientId}/${serverId}/${serverInfo.serverName}`
-    return this.sendRequest(rpcTopic, request, serverId)
+    this.pendingByServer.set(serverId, this.getPendingRequestCount(serverId) + 1)
+    try {
+      return await this.sendRequest(rpcTopic, request, serverId, options)
+    } finally {
+      const remaining = this.getPendingRequestCount(serverId) - 1
+      if (remaining > 0) {
+        this.pendingByServer.set(serverId, remaining)
+      } else {
+        this.pendingByServer.delete(serverId)
+      }
+    }
   }
 
   private getRequestTimeout(method: string): number {
@@ -350,31 +1096,107 @@ export class McpMqttClient extends EventEmitter {
     return timeouts[method] || 30000 // Default to 30 seconds
   }
 
-  private async sendRequest(topic: string, request: JSONRPCRequest, _serverId?: string): Promise<JSONRPCResponse> {
+  private async sendRequest(
+    topic: string,
+    request: JSONRPCRequest,
+    serverId?: string,
+    options: RequestOptions = {},
+  ): Promise<JSONRPCResponse> {
+    const { onProgress, signal } = options
+
+    if (signal?.aborted) {
+      throw new Error(`Request cancelled: ${request.method}`)
+    }
+
+    if (onProgress) {
+      // Use the request ID as progress token so progress can be matched to the pending request
+      request.params = {
+        ...request.params,
+        _meta: { ...request.params?._meta, progressToken: request.id },
+      }
+    }
+
     return new Promise((resolve, reject) => {
       const timeoutMs = this.getRequestTimeout(request.method)
-      const timeout = setTimeout(() => {
+
+      const settle = () => {
         this.pendingRequests.delete(request.id)
-        reject(new Error(`Request timeout: ${request.method} (${timeoutMs}ms)`))
-      }, timeoutMs)
+        clearTimeout(pending.timeout)
+        signal?.removeEventListener('abort', onAbort)
+      }
 
-      this.pendingRequests.set(request.id, { resolve, reject, timeout })
+      const onTimeout = () => {
+        settle()
+        this.sendCancellation(topic, request, `Request timeout (${timeoutMs}ms)`)
+        reject(new TransientError(`Request timeout: ${request.method} (${timeoutMs}ms)`))
+      }
+
+      const onAbort = () => {
+        settle()
+        const reason = signal?.reason instanceof Error ? signal.reason.message : signal?.reason
+        this.sendCancellation(topic, request, typeof reason === 'string' ? reason : 'Request cancelled')
+        reject(new Error(`Request cancelled: ${request.method}`))
+      }
+
+      const pending = {
+        resolve: (value: any) => {
+          settle()
+          resolve(value)
+        },
+        reject: (error: Error) => {
+          settle()
+          reject(error)
+        },
+        timeout: setTimeout(onTimeout, timeoutMs),
+        ...(onProgress && { onProgress }),
+        resetTimeout: () => {
+          clearTimeout(pending.timeout)
+          pending.timeout = setTimeout(onTimeout, timeoutMs)
+        },
+        ...(serverId && { serverId }),
+      }
+
+      this.pendingRequests.set(request.id, pending)
+      signal?.addEventListener('abort', onAbort, { once: true })
 
       this.mqttAdapter
         .publish(topic, JSON.stringify(request), {
           userProperties: {
             'MCP-COMPONENT-TYPE': 'mcp-client',
             'MCP-MQTT-CLIENT-ID': this.mcpClientId,
+            ...(this.config.rbacRole && { 'MCP-RBAC-ROLE': this.config.rbacRole }),
           },
         })
         .catch((error) => {
-          this.pendingRequests.delete(request.id)
-          clearTimeout(timeout)
-          reject(error)
+          pending.reject(error)
         })
     })
   }
 
+  private sendCancellation(topic: string, request: JSONRPCRequest, reason: string): void {
+    // The initialize request must not be cancelled per MCP specification
+    if (request.method === 'initialize') {
+      return
+    }
+
+    const notification: CancelledNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/cancelled',
+      params: { requestId: request.id, reason },
+    }
+
+    this.mqttAdapter
+      .publish(topic, JSON.stringify(notification), {
+        userProperties: {
+          'MCP-COMPONENT-TYPE': 'mcp-client',
+          'MCP-MQTT-CLIENT-ID': this.mcpClientId,
+        },
+      })
+      .catch((error) => {
+        console.warn('Failed to send cancellation notification:', error)
+      })
+  }
+
   private async handleMessage(topic: string, message: string, _packet: any): Promise<void> {
     try {
       if (topic.startsWith('$mcp-server/presence/')) {
@@ -397,10 +1219,20 @@ export class McpMqttClient extends EventEmitter {
     if (!serverId) return
 
     if (!message.trim()) {
-      // Empty message means server went offline
-      this.discoveredServers.delete(serverId)
-      this.connectedServers.delete(serverId)
-      this.emit('serverDisconnected', serverId)
+      // Empty message means server went offline; keep resource listeners in case it comes back
+      const known = this.discoveredServers.delete(serverId)
+      this.autoConnectFailed.delete(serverId)
+      if (this.connectedServers.delete(serverId)) {
+        this.lostServers.add(serverId)
+      } else {
+        this.resourceListeners.delete(serverId)
+      }
+      this.failPendingRequests(serverId)
+      // A server that stopped gracefully said goodbye before clearing its presence
+      if (known) {
+        this.emit('serverDisconnected', serverId)
+        this.fillConnectionPool()
+      }
       return
     }
 
@@ -408,6 +1240,12 @@ export class McpMqttClient extends EventEmitter {
       const parsedMessage = JSON.parse(message)
       const notification: ServerOnlineNotification = ServerOnlineNotificationSchema.parse(parsedMessage)
 
+      // Overlapping subscriptions or a mismatched payload may bring in servers outside the allowed names
+      const serverName = notification.params.server_name
+      if (!this.serverNameFilters.some((filter) => matchTopicFilter(filter, serverName))) {
+        return
+      }
+
       const serverInfo: ServerInfo = {
         serverId,
         serverName: notification.params.server_name,
@@ -424,7 +1262,15 @@ export class McpMqttClient extends EventEmitter {
       }
 
       this.discoveredServers.set(serverId, serverInfo)
+      this.autoConnectFailed.delete(serverId)
       this.emit('serverDiscovered', serverInfo)
+
+      // A server announcing itself again may have restarted and lost our session
+      if (this.lostServers.delete(serverId)) {
+        this.restoreServer(serverId)
+      } else if (this.shouldAutoConnect(serverInfo)) {
+        this.autoInitialize(serverId)
+      }
     } catch (error) {
       console.error('Failed to parse server presence message:', error)
     }
@@ -456,38 +1302,150 @@ export class McpMqttClient extends EventEmitter {
         clearTimeout(pendingRequest.timeout)
 
         if (parsedMessage.error) {
-          pendingRequest.reject(new McpError(parsedMessage.error.code, parsedMessage.error.message))
+          pendingRequest.reject(
+            new McpError(parsedMessage.error.code, parsedMessage.error.message, parsedMessage.error.data),
+          )
         } else {
           pendingRequest.resolve(parsedMessage)
         }
+      } else if (parsedMessage.method && parsedMessage.id !== undefined && parsedMessage.id !== null) {
+        // This is a request from server
+        this.handleServerRequest(topic, parsedMessage as JSONRPCRequest)
       } else if (parsedMessage.method) {
-        // Check if it's a disconnect notification
-        if (parsedMessage.method === 'notifications/disconnected') {
-          try {
-            DisconnectedNotificationSchema.parse(parsedMessage)
-            // Handle server disconnect - clean up this server connection
-            const parts = topic.split('/')
-            if (parts.length >= 3) {
-              const serverId = parts[2]
-              if (serverId) {
-                this.connectedServers.delete(serverId)
-                this.emit('serverDisconnected', serverId)
-              }
-            }
-            return
-          } catch (error) {
-            console.error('Invalid disconnect notification:', error)
-          }
+        // This is a notification from server
+        const serverId = topic.split('/')[2]
+        if (serverId) {
+          this.handleServerNotification(serverId, parsedMessage)
         }
-
-        // This is a notification or request from server
-        this.emit('serverNotification', parsedMessage)
       }
     } catch (error) {
       console.error('Failed to parse RPC message:', error)
     }
   }
 
+  private async handleServerRequest(topic: string, request: JSONRPCRequest): Promise<void> {
+    const serverId = topic.split('/')[2]
+    if (!serverId) return
+
+    let response: JSONRPCResponse
+    try {
+      const result = await this.dispatchServerRequest(serverId, request)
+      response = createResponse(request.id, result)
+    } catch (error) {
+      const mcpError =
+        error instanceof McpError
+          ? error
+          : new McpError(ErrorCode.INTERNAL_ERROR, error instanceof Error ? error.message : 'Internal error')
+      response = createResponse(request.id, undefined, mcpError.toJSON())
+    }
+
+    try {
+      await this.mqttAdapter.publish(topic, JSON.stringify(response), {
+        userProperties: {
+          'MCP-COMPONENT-TYPE': 'mcp-client',
+          'MCP-MQTT-CLIENT-ID': this.mcpClientId,
+        },
+      })
+    } catch (error) {
+      console.error('Failed to send response to server request:', error)
+    }
+  }
+
+  private async dispatchServerRequest(serverId: string, request: JSONRPCRequest): Promise<any> {
+    const capability = CAPABILITY_GATED_METHODS[request.method]
+    const feature = VERSION_GATED_METHODS[request.method]
+    const entry = this.requestHandlers.get(request.method)
+
+    if (capability && !this.config.capabilities?.[capability]) {
+      throw new McpError(ErrorCode.METHOD_NOT_FOUND, `Method not found: ${request.method}`)
+    }
+    if (feature && !this.supportsFeature(serverId, feature)) {
+      throw new McpError(ErrorCode.METHOD_NOT_FOUND, `Method not found: ${request.method}`)
+    }
+    if (!entry) {
+      throw new McpError(ErrorCode.METHOD_NOT_FOUND, `Method not found: ${request.method}`)
+    }
+
+    let params: any = request.params ?? {}
+    if (entry.schema) {
+      const parsed = entry.schema.safeParse(params)
+      if (!parsed.success) {
+        throw new McpError(ErrorCode.INVALID_PARAMS, `Invalid params for ${request.method}`, parsed.error.issues)
+      }
+      params = parsed.data
+    }
+
+    return entry.handler(params, { serverId, requestId: request.id })
+  }
+
+  private handleServerNotification(serverId: string, notification: Record<string, any>): void {
+    const handler = this.notificationHandlers.get(notification.method)
+    if (handler) {
+      try {
+        Promise.resolve(handler(notification.params ?? {}, { serverId })).catch((error) => {
+          console.error(`Notification handler failed for ${notification.method}:`, error)
+        })
+      } catch (error) {
+        console.error(`Notification handler failed for ${notification.method}:`, error)
+      }
+    }
+
+    this.emit('serverNotification', notification)
+  }
+
+  private registerBuiltinHandlers(): void {
+    this.requestHandlers.set('ping', { schema: undefined, handler: async () => ({}) })
+
+    this.notificationHandlers.set('notifications/disconnected', (_params, { serverId }) => {
+      // Server went away gracefully, so it is not restored if it comes back
+      this.discoveredServers.delete(serverId)
+      this.lostServers.delete(serverId)
+      this.resourceListeners.delete(serverId)
+      this.failPendingRequests(serverId)
+      if (this.connectedServers.delete(serverId)) {
+        this.emit('serverDisconnected', serverId)
+        this.fillConnectionPool()
+      }
+    })
+    this.notificationHandlers.set('notifications/progress', (params) => {
+      const result = ProgressNotificationSchema.shape.params.safeParse(params)
+      if (result.success) {
+        const { progressToken, ...progress } = result.data
+        const pendingRequest = this.pendingRequests.get(progressToken)
+        if (pendingRequest?.onProgress) {
+          pendingRequest.resetTimeout()
+          pendingRequest.onProgress(progress)
+        }
+      }
+    })
+    this.notificationHandlers.set('notifications/message', (params, { serverId }) => {
+      const result = LoggingMessageNotificationSchema.shape.params.safeParse(params)
+      if (result.success) {
+        this.emit('log', serverId, result.data)
+      }
+    })
+    this.notificationHandlers.set('notifications/resources/updated', (params, { serverId }) => {
+      const result = ResourceUpdatedNotificationSchema.shape.params.safeParse(params)
+      if (result.success) {
+        this.handleResourceUpdated(serverId, result.data.uri)
+      }
+    })
+  }
+
+  private handleResourceUpdated(serverId: string, uri: string): void {
+    const listeners = this.resourceListeners.get(serverId)?.get(uri)
+    if (listeners) {
+      for (const listener of listeners) {
+        try {
+          listener(uri)
+        } catch (error) {
+          console.error('Resource update listener failed:', error)
+        }
+      }
+    }
+    this.emit('resourceUpdated', serverId, uri)
+  }
+
   getDiscoveredServers(): ServerInfo[] {
     return Array.from(this.discoveredServers.values())
   }
@@ -496,10 +1454,49 @@ export class McpMqttClient extends EventEmitter {
     return Array.from(this.connectedServers.values())
   }
 
+  /**
+   * Whether the protocol version negotiated with a server includes `feature`.
+   * Returns false for servers that have not been initialized.
+   */
+  supportsFeature(serverId: string, feature: ProtocolFeature): boolean {
+    return supportsProtocolFeature(this.connectedServers.get(serverId)?.protocolVersion, feature)
+  }
+
   isServerConnected(serverId: string): boolean {
     return this.connectedServers.has(serverId)
   }
 
+  getPendingRequestCount(serverId: string): number {
+    return this.pendingByServer.get(serverId) ?? 0
+  }
+
+  /**
+   * Address all instances sharing a server name. Calls are spread across the
+   * initialized instances and fail over when one goes away; each result reports
+   * the serving `serverId`. The same group is returned for the same name and strategy.
+   */
+  forName(serverName: string, options: ServerGroupOptions = {}): ServerGroup {
+    const strategy = options.strategy ?? 'round-robin'
+    const key = `${strategy}:${serverName}`
+
+    let group = this.serverGroups.get(key)
+    if (!group) {
+      group = new ServerGroup(this, serverName, strategy)
+      this.serverGroups.set(key, group)
+    }
+    return group
+  }
+
+  /**
+   * Create a catalog of the tools of every initialized server, namespaced by
+   * server name, and load it. Close the catalog when it is no longer needed.
+   */
+  async createToolCatalog(options: ToolCatalogOptions = {}): Promise<ToolCatalog> {
+    const catalog = new ToolCatalog(this, options)
+    await catalog.refresh()
+    return catalog
+  }
+
   getMqttClient(): MqttClient | null {
     return this.mqttAdapter.getClient()
   }
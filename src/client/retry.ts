@@ -0,0 +1,75 @@
+import { ErrorCode } from '../types.js'
+import type { RetryPolicy } from '../types.js'
+import { McpError } from '../shared/utils.js'
+
+// Read-only methods; tools/call is retried only for tools annotated as idempotent or read-only
+export const DEFAULT_RETRYABLE_METHODS = [
+  'ping',
+  'tools/list',
+  'resources/list',
+  'resources/templates/list',
+  'resources/read',
+  'prompts/list',
+  'prompts/get',
+  'completion/complete',
+]
+
+export const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_INITIAL_DELAY_MS = 200
+const DEFAULT_MAX_DELAY_MS = 5000
+const DEFAULT_BACKOFF_MULTIPLIER = 2
+
+// Server errors that report overload rather than a problem with the request
+const TRANSIENT_ERROR_CODES = new Set<number>([ErrorCode.RATE_LIMITED, ErrorCode.QUEUE_FULL])
+
+/**
+ * The request got no answer: it timed out or the broker connection dropped.
+ * Sending it again may succeed.
+ */
+export class TransientError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TransientError'
+  }
+}
+
+export interface RetryAttempt {
+  attempt: number // 1-based
+  error: Error
+  durationMs: number
+}
+
+/**
+ * Every attempt of a retry-safe request failed with a transient error.
+ * `attempts` holds the history, oldest first.
+ */
+export class RetryExhaustedError extends Error {
+  constructor(
+    public method: string,
+    public attempts: RetryAttempt[],
+  ) {
+    const lastError = attempts[attempts.length - 1]?.error
+    super(`${method} failed after ${attempts.length} attempts${lastError ? `: ${lastError.message}` : ''}`)
+    this.name = 'RetryExhaustedError'
+  }
+}
+
+export function isTransientError(error: unknown): boolean {
+  return error instanceof TransientError || (error instanceof McpError && TRANSIENT_ERROR_CODES.has(error.code))
+}
+
+/**
+ * Exponential backoff after the given failed attempt (1-based). A server's
+ * `retryAfterMs` hint takes precedence when it asks for a longer wait.
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, error: unknown): number {
+  const {
+    initialDelayMs = DEFAULT_INITIAL_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    backoffMultiplier = DEFAULT_BACKOFF_MULTIPLIER,
+  } = policy
+  const backoff = Math.min(maxDelayMs, initialDelayMs * backoffMultiplier ** (attempt - 1))
+
+  const retryAfterMs = error instanceof McpError ? error.data?.retryAfterMs : undefined
+  return typeof retryAfterMs === 'number' ? Math.max(backoff, retryAfterMs) : backoff
+}
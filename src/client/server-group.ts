@@ -0,0 +1,153 @@
+import type { z } from 'zod'
+import type { GetPromptResult, Prompt, Resource, Tool } from '../types.js'
+import { ErrorCode } from '../types.js'
+import { McpError } from '../shared/utils.js'
+import { RetryExhaustedError, TransientError } from './retry.js'
+import type { McpMqttClient, CallToolOptions, RequestOptions, TypedCallToolResult } from './mcp-client.js'
+
+// Answers given before the request was handled, so another instance can take it
+const NOT_HANDLED_ERROR_CODES = new Set<number>([
+  ErrorCode.SERVER_SHUTTING_DOWN,
+  ErrorCode.RATE_LIMITED,
+  ErrorCode.QUEUE_FULL,
+])
+
+export type LoadBalancingStrategy = 'round-robin' | 'least-pending' | 'random'
+
+export interface ServerGroupOptions {
+  strategy?: LoadBalancingStrategy // Default: 'round-robin'
+}
+
+// A result together with the instance that produced it
+export interface ServedResult<T> {
+  serverId: string
+  result: T
+}
+
+/**
+ * Addresses every initialized instance that publishes the same server name.
+ * Each call goes to one instance picked by the strategy; when that instance shuts
+ * down or is overloaded, the call moves on to the next one. Timeouts and instances
+ * going offline move it on only for requests that are safe to repeat (see `isRetrySafe`).
+ */
+export class ServerGroup {
+  private nextIndex = 0
+
+  constructor(
+    private client: McpMqttClient,
+    readonly serverName: string,
+    readonly strategy: LoadBalancingStrategy = 'round-robin',
+    private accepts: (serverId: string) => boolean = () => true, // Narrows the instances that take part
+  ) {}
+
+  // Initialized instances, ordered by serverId
+  instances(): string[] {
+    return this.client
+      .getConnectedServers()
+      .filter((server) => server.serverName === this.serverName && this.accepts(server.serverId))
+      .map((server) => server.serverId)
+      .sort()
+  }
+
+  async callTool<T = Record<string, any>>(
+    name: string,
+    args?: Record<string, any>,
+    options?: CallToolOptions<T>,
+  ): Promise<ServedResult<TypedCallToolResult<T>>> {
+    return this.dispatch('tools/call', { name }, (serverId) => this.client.callTool<T>(serverId, name, args, options))
+  }
+
+  async listTools(): Promise<ServedResult<Tool[]>> {
+    return this.dispatch('tools/list', undefined, (serverId) => this.client.listTools(serverId))
+  }
+
+  async listResources(): Promise<ServedResult<Resource[]>> {
+    return this.dispatch('resources/list', undefined, (serverId) => this.client.listResources(serverId))
+  }
+
+  async readResource(uri: string): Promise<ServedResult<any>> {
+    return this.dispatch('resources/read', { uri }, (serverId) => this.client.readResource(serverId, uri))
+  }
+
+  async listPrompts(): Promise<ServedResult<Prompt[]>> {
+    return this.dispatch('prompts/list', undefined, (serverId) => this.client.listPrompts(serverId))
+  }
+
+  async getPrompt(name: string, args?: Record<string, string>): Promise<ServedResult<GetPromptResult>> {
+    return this.dispatch('prompts/get', { name }, (serverId) => this.client.getPrompt(serverId, name, args))
+  }
+
+  async request<S extends z.ZodTypeAny>(
+    method: string,
+    params: Record<string, any> | undefined,
+    resultSchema: S,
+    options?: RequestOptions,
+  ): Promise<ServedResult<z.infer<S>>> {
+    return this.dispatch(method, params, (serverId) =>
+      this.client.request(serverId, method, params, resultSchema, options),
+    )
+  }
+
+  private async dispatch<T>(
+    method: string,
+    params: Record<string, any> | undefined,
+    operation: (serverId: string) => Promise<T>,
+  ): Promise<ServedResult<T>> {
+    const tried = new Set<string>()
+    let lastError: unknown
+
+    for (;;) {
+      const candidates = this.instances().filter((serverId) => !tried.has(serverId))
+      const serverId = this.pick(candidates)
+      if (serverId === undefined) {
+        throw lastError ?? new Error(`No initialized server instance: ${this.serverName}`)
+      }
+
+      tried.add(serverId)
+      try {
+        return { serverId, result: await operation(serverId) }
+      } catch (error) {
+        if (!this.shouldFailOver(serverId, error, method, params)) {
+          throw error
+        }
+        lastError = error
+      }
+    }
+  }
+
+  private pick(candidates: string[]): string | undefined {
+    if (candidates.length === 0) {
+      return undefined
+    }
+
+    switch (this.strategy) {
+      case 'random':
+        return candidates[Math.floor(Math.random() * candidates.length)]
+      case 'least-pending':
+        return candidates.reduce((best, serverId) =>
+          this.client.getPendingRequestCount(serverId) < this.client.getPendingRequestCount(best) ? serverId : best,
+        )
+      default:
+        return candidates[this.nextIndex++ % candidates.length]
+    }
+  }
+
+  // Only failures of the instance itself move the call on; errors about the request are final
+  private shouldFailOver(
+    serverId: string,
+    error: unknown,
+    method: string,
+    params: Record<string, any> | undefined,
+  ): boolean {
+    // The instance went away, possibly after handling the request
+    if (!this.client.isServerConnected(serverId)) {
+      return this.client.isRetrySafe(serverId, method, params)
+    }
+    if (error instanceof McpError && NOT_HANDLED_ERROR_CODES.has(error.code)) {
+      return true
+    }
+    // The instance may have handled a request that timed out, so only repeat it when that is harmless
+    const mayHaveRun = error instanceof TransientError || error instanceof RetryExhaustedError
+    return mayHaveRun && this.client.isRetrySafe(serverId, method, params)
+  }
+}
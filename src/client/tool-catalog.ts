@@ -0,0 +1,180 @@
+import { EventEmitter } from 'events'
+import type { Tool } from '../types.js'
+import { ErrorCode } from '../types.js'
+import { McpError } from '../shared/utils.js'
+import type { McpMqttClient, CallToolOptions, ServerInfo, TypedCallToolResult } from './mcp-client.js'
+import { ServerGroup } from './server-group.js'
+import type { LoadBalancingStrategy } from './server-group.js'
+
+// A tool listed under its namespaced name, with every instance that offers it
+export interface CatalogTool extends Tool {
+  serverId: string // First instance listing the tool, which the definition comes from
+  serverIds: string[] // Every instance listing the tool; calls are spread across these
+  serverName: string
+  toolName: string // Name on the server
+}
+
+export interface ToolCatalogOptions {
+  namespace?: (serverName: string, toolName: string) => string // Default: `${serverName}__${toolName}`
+  strategy?: LoadBalancingStrategy // For instances sharing a server name (default: 'round-robin')
+}
+
+const defaultNamespace = (serverName: string, toolName: string) => `${serverName}__${toolName}`
+
+/**
+ * One flat list of the tools of every initialized server, with names namespaced
+ * by server name. Tracks servers being initialized and going away, and refreshes
+ * a server's tools when it announces `notifications/tools/list_changed`.
+ * Call `refresh()` once to load servers that were initialized before the catalog existed.
+ *
+ * Instances sharing a server name share a namespace; calls to a tool are spread
+ * like `client.forName()`, across the instances that list that tool.
+ */
+export class ToolCatalog extends EventEmitter {
+  private namespace: (serverName: string, toolName: string) => string
+  private strategy: LoadBalancingStrategy
+  private toolsByServer = new Map<string, Tool[]>() // serverId -> tools from its latest listing
+  private refreshCounts = new Map<string, number>() // serverId -> refreshes started, to drop stale results
+  private entries = new Map<string, CatalogTool>() // namespaced name -> tool
+  private groups = new Map<string, ServerGroup>() // namespaced name -> instances offering the tool
+
+  private onInitialized = (server: ServerInfo) => {
+    this.reload(server.serverId)
+  }
+
+  private onCapabilityChanged = (serverId: string, method: string) => {
+    if (method === 'notifications/tools/list_changed' && this.client.isServerConnected(serverId)) {
+      this.reload(serverId)
+    }
+  }
+
+  private onDisconnected = (serverId: string) => {
+    if (this.toolsByServer.delete(serverId)) {
+      this.rebuild()
+    }
+  }
+
+  constructor(
+    private client: McpMqttClient,
+    options: ToolCatalogOptions = {},
+  ) {
+    super()
+    this.namespace = options.namespace ?? defaultNamespace
+    this.strategy = options.strategy ?? 'round-robin'
+
+    client.on('serverInitialized', this.onInitialized)
+    client.on('serverCapabilityChanged', this.onCapabilityChanged)
+    client.on('serverDisconnected', this.onDisconnected)
+  }
+
+  // Reload the tools of every initialized server
+  async refresh(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.client.getConnectedServers().map((server) => this.refreshServer(server.serverId)),
+    )
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.warn('Failed to refresh tool catalog:', result.reason)
+      }
+    }
+  }
+
+  list(): CatalogTool[] {
+    return Array.from(this.entries.values())
+  }
+
+  get(name: string): CatalogTool | undefined {
+    return this.entries.get(name)
+  }
+
+  async call<T = Record<string, any>>(
+    name: string,
+    args?: Record<string, any>,
+    options?: CallToolOptions<T>,
+  ): Promise<TypedCallToolResult<T>> {
+    const entry = this.entries.get(name)
+    if (!entry) {
+      throw new McpError(ErrorCode.TOOL_NOT_FOUND, `Tool not found in catalog: ${name}`)
+    }
+
+    // Created once per tool so round-robin keeps rotating; reads the current entry on every call
+    let group = this.groups.get(name)
+    if (!group) {
+      group = new ServerGroup(this.client, entry.serverName, this.strategy, (serverId) =>
+        Boolean(this.entries.get(name)?.serverIds.includes(serverId)),
+      )
+      this.groups.set(name, group)
+    }
+
+    const { result } = await group.callTool<T>(entry.toolName, args, options)
+    return result
+  }
+
+  // Stop following the client's events
+  close(): void {
+    this.client.off('serverInitialized', this.onInitialized)
+    this.client.off('serverCapabilityChanged', this.onCapabilityChanged)
+    this.client.off('serverDisconnected', this.onDisconnected)
+  }
+
+  private reload(serverId: string): void {
+    this.refreshServer(serverId).catch((error) => {
+      console.error(`Failed to load tools of ${serverId}:`, error)
+    })
+  }
+
+  private async refreshServer(serverId: string): Promise<void> {
+    const count = (this.refreshCounts.get(serverId) ?? 0) + 1
+    this.refreshCounts.set(serverId, count)
+
+    const tools = await this.client.listTools(serverId)
+
+    // A newer refresh started meanwhile, or the server went away
+    if (this.refreshCounts.get(serverId) !== count || !this.client.isServerConnected(serverId)) {
+      return
+    }
+    this.toolsByServer.set(serverId, tools)
+    this.rebuild()
+  }
+
+  private rebuild(): void {
+    const entries = new Map<string, CatalogTool>()
+    const servers = new Map(this.client.getConnectedServers().map((server) => [server.serverId, server]))
+
+    for (const [serverId, tools] of this.toolsByServer) {
+      const server = servers.get(serverId)
+      if (!server) {
+        continue
+      }
+
+      for (const tool of tools) {
+        const name = this.namespace(server.serverName, tool.name)
+        const existing = entries.get(name)
+        if (existing && existing.serverName !== server.serverName) {
+          console.warn(`Tool name collision in catalog: ${name} (${existing.serverName}, ${server.serverName})`)
+          continue
+        }
+        if (existing) {
+          existing.serverIds.push(serverId)
+        } else {
+          entries.set(name, {
+            ...tool,
+            name,
+            serverId,
+            serverIds: [serverId],
+            serverName: server.serverName,
+            toolName: tool.name,
+          })
+        }
+      }
+    }
+
+    this.entries = entries
+    for (const name of this.groups.keys()) {
+      if (!entries.has(name)) {
+        this.groups.delete(name)
+      }
+    }
+    this.emit('updated', this.list())
+  }
+}
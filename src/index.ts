@@ -1,14 +1,74 @@
 // Main exports for the MCP over MQTT SDK
 export * from './types.js'
 export * from './shared/utils.js'
+export { UriTemplate } from './shared/uri-template.js'
+export { zodToJsonSchema } from './shared/zod-json-schema.js'
+export {
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  supportsProtocolFeature,
+} from './shared/protocol-version.js'
+export type { ProtocolFeature } from './shared/protocol-version.js'
 
 // Server exports
 export { McpMqttServer, createMcpServer } from './server/index.js'
-export type { ToolHandler, ResourceHandler } from './server/index.js'
+export type {
+  ToolHandler,
+  TypedToolHandler,
+  ToolOptions,
+  ResourceHandler,
+  ResourceTemplateHandler,
+  PromptHandler,
+  RequestContext,
+  ClientSession,
+  CompletionProvider,
+  McpLogger,
+  Middleware,
+  MiddlewareContext,
+  RequestHandler,
+  NotificationHandler,
+  NotificationContext,
+  RegisteredItem,
+  RegisteredTool,
+  RegisteredResource,
+  RegisteredResourceTemplate,
+  RegisteredPrompt,
+  ToolUpdate,
+  ResourceUpdate,
+  ResourceTemplateUpdate,
+  PromptUpdate,
+  ServerStats,
+  StopOptions,
+} from './server/index.js'
 
 // Client exports
-export { McpMqttClient, createMcpClient } from './client/index.js'
-export type { ServerInfo } from './client/index.js'
+export {
+  McpMqttClient,
+  createMcpClient,
+  RetryExhaustedError,
+  DEFAULT_RETRYABLE_METHODS,
+  ServerGroup,
+  ToolCatalog,
+} from './client/index.js'
+export type {
+  ServerInfo,
+  RetryAttempt,
+  LoadBalancingStrategy,
+  ServerGroupOptions,
+  ServedResult,
+  CatalogTool,
+  ToolCatalogOptions,
+  ResourceUpdateListener,
+  ProgressCallback,
+  RequestOptions,
+  PageOptions,
+  CallToolOptions,
+  TypedCallToolResult,
+  ServerRequestContext,
+  ServerRequestHandler,
+  ServerNotificationHandler,
+  ServerNotificationContext,
+} from './client/index.js'
 
 // Version
 export const VERSION = '0.2.2'
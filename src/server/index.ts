@@ -1,2 +1,29 @@
 export { McpMqttServer, createMcpServer } from './mcp-server.js'
-export type { ToolHandler, ResourceHandler } from './mcp-server.js'
+export type {
+  ToolHandler,
+  TypedToolHandler,
+  ToolOptions,
+  ResourceHandler,
+  ResourceTemplateHandler,
+  PromptHandler,
+  RequestContext,
+  ClientSession,
+  CompletionProvider,
+  McpLogger,
+  Middleware,
+  MiddlewareContext,
+  RequestHandler,
+  NotificationHandler,
+  NotificationContext,
+  RegisteredItem,
+  RegisteredTool,
+  RegisteredResource,
+  RegisteredResourceTemplate,
+  RegisteredPrompt,
+  ToolUpdate,
+  ResourceUpdate,
+  ResourceTemplateUpdate,
+  PromptUpdate,
+  ServerStats,
+  StopOptions,
+} from './mcp-server.js'
@@ -0,0 +1,156 @@
+import { ErrorCode } from '../types.js'
+import type { RateLimit } from '../types.js'
+import { McpError } from '../shared/utils.js'
+
+const DEFAULT_MAX_QUEUE_SIZE = 100
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens and refills at
+ * `ratePerSecond`. Each request takes one token.
+ */
+export class TokenBucket {
+  private tokens: number
+  private updatedAt: number
+
+  constructor(
+    private ratePerSecond: number,
+    private capacity: number,
+    private now: () => number = Date.now,
+  ) {
+    this.tokens = capacity
+    this.updatedAt = now()
+  }
+
+  // Take a token if one is available. Returns 0 on success, otherwise the milliseconds until the next token.
+  take(): number {
+    const now = this.now()
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond)
+    this.updatedAt = now
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1
+      return 0
+    }
+    return Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000)
+  }
+}
+
+export function createTokenBucket(limit: RateLimit): TokenBucket {
+  return new TokenBucket(limit.requestsPerSecond, limit.burst ?? Math.max(1, limit.requestsPerSecond))
+}
+
+export interface ConcurrencyLimits {
+  maxConcurrent?: number | undefined // Across all keys (default: unlimited)
+  maxConcurrentPerKey?: number | undefined // Per key, e.g. per client (default: unlimited)
+  maxQueueSize?: number | undefined // Requests waiting for a slot (default: 100)
+}
+
+interface Waiter {
+  key: string
+  start: () => void
+}
+
+/**
+ * Hands out execution slots under a global and a per-key cap. Requests that cannot
+ * start right away wait in a bounded FIFO queue; when it is full, `acquire` fails
+ * with QUEUE_FULL.
+ */
+export class ConcurrencyLimiter {
+  private active = 0
+  private activeByKey = new Map<string, number>()
+  private queue: Waiter[] = []
+
+  constructor(private limits: ConcurrencyLimits = {}) {}
+
+  /**
+   * Resolve with a release function once a slot is free. Aborting `signal` while
+   * queued removes the request from the queue and rejects.
+   */
+  acquire(key: string, signal?: AbortSignal): Promise<() => void> {
+    if (this.canStart(key)) {
+      return Promise.resolve(this.start(key))
+    }
+    if (this.queue.length >= (this.limits.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE)) {
+      return Promise.reject(new McpError(ErrorCode.QUEUE_FULL, 'Server is busy: request queue is full'))
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((waiter) => waiter !== queued)
+        reject(new Error('Request cancelled while queued'))
+      }
+      const queued: Waiter = {
+        key,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(this.start(key))
+        },
+      }
+
+      if (signal?.aborted) {
+        reject(new Error('Request cancelled while queued'))
+        return
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.queue.push(queued)
+    })
+  }
+
+  stats(): { active: number; queued: number; byKey: Map<string, { active: number; queued: number }> } {
+    const byKey = new Map<string, { active: number; queued: number }>()
+    for (const [key, active] of this.activeByKey) {
+      byKey.set(key, { active, queued: 0 })
+    }
+    for (const { key } of this.queue) {
+      const entry = byKey.get(key) ?? { active: 0, queued: 0 }
+      entry.queued += 1
+      byKey.set(key, entry)
+    }
+    return { active: this.active, queued: this.queue.length, byKey }
+  }
+
+  private canStart(key: string): boolean {
+    const { maxConcurrent, maxConcurrentPerKey } = this.limits
+    return (
+      (maxConcurrent === undefined || this.active < maxConcurrent) &&
+      (maxConcurrentPerKey === undefined || (this.activeByKey.get(key) ?? 0) < maxConcurrentPerKey)
+    )
+  }
+
+  private start(key: string): () => void {
+    this.active += 1
+    this.activeByKey.set(key, (this.activeByKey.get(key) ?? 0) + 1)
+
+    let released = false
+    return () => {
+      if (released) {
+        return
+      }
+      released = true
+
+      this.active -= 1
+      const remaining = (this.activeByKey.get(key) ?? 1) - 1
+      if (remaining > 0) {
+        this.activeByKey.set(key, remaining)
+      } else {
+        this.activeByKey.delete(key)
+      }
+      this.drain()
+    }
+  }
+
+  // Start queued requests in order, skipping those whose key is still at its cap
+  private drain(): void {
+    for (let i = 0; i < this.queue.length;) {
+      const waiter = this.queue[i]!
+      if (this.canStart(waiter.key)) {
+        this.queue.splice(i, 1)
+        waiter.start()
+      } else if (this.limits.maxConcurrent !== undefined && this.active >= this.limits.maxConcurrent) {
+        return
+      } else {
+        i += 1
+      }
+    }
+  }
+}
@@ -2,40 +2,165 @@ import { EventEmitter } from 'events'
 import { z } from 'zod'
 import type {
   McpMqttServerConfig,
+  DisconnectedNotification,
   MqttConnectionOptions,
   Tool,
+  ToolAnnotations,
+  ContentBlock,
   Resource,
+  ResourceTemplate,
+  Prompt,
+  PromptArgument,
+  GetPromptResult,
   JSONRPCRequest,
   JSONRPCResponse,
   InitializeRequest,
   CallToolRequest,
   ReadResourceRequest,
+  GetPromptRequest,
+  SubscribeRequest,
+  ResourceUpdatedNotification,
+  LoggingLevel,
+  SetLevelRequest,
+  LoggingMessageNotification,
+  ProgressNotification,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ListRootsResult,
+  CompleteRequest,
+  CompleteResult,
+  ListToolsResult,
+  ListResourcesResult,
   ServerOnlineNotification,
+  RateLimit,
 } from '../types.js'
 import {
   InitializeRequestSchema,
   CallToolRequestSchema,
+  CallToolResultSchema,
   ReadResourceRequestSchema,
+  GetPromptRequestSchema,
+  GetPromptResultSchema,
+  SubscribeRequestSchema,
+  SetLevelRequestSchema,
+  LoggingLevelSchema,
+  ProgressTokenSchema,
+  CancelledNotificationSchema,
+  CreateMessageResultSchema,
+  ListRootsResultSchema,
+  CompleteRequestSchema,
   DisconnectedNotificationSchema,
   ErrorCode,
 } from '../types.js'
 import { UniversalMqttAdapter, parseUndefined } from '../shared/mqtt-adapter.js'
-import { createResponse, McpError } from '../shared/utils.js'
+import { createNotification, createRequest, createResponse, McpError } from '../shared/utils.js'
+import { UriTemplate } from '../shared/uri-template.js'
+import { isZodSchema, zodToJsonSchema } from '../shared/zod-json-schema.js'
+import {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  negotiateProtocolVersion,
+  supportsProtocolFeature,
+} from '../shared/protocol-version.js'
+import type { ProtocolFeature } from '../shared/protocol-version.js'
+import { RbacPolicy } from './rbac.js'
+import { paginate } from './pagination.js'
+import { ConcurrencyLimiter, TokenBucket, createTokenBucket } from './limits.js'
+
+export interface McpLogger {
+  log(level: LoggingLevel, data: unknown, logger?: string): Promise<void>
+  debug(data: unknown, logger?: string): Promise<void>
+  info(data: unknown, logger?: string): Promise<void>
+  notice(data: unknown, logger?: string): Promise<void>
+  warning(data: unknown, logger?: string): Promise<void>
+  error(data: unknown, logger?: string): Promise<void>
+  critical(data: unknown, logger?: string): Promise<void>
+  alert(data: unknown, logger?: string): Promise<void>
+  emergency(data: unknown, logger?: string): Promise<void>
+}
+
+// State kept for each MCP client from its initialize request until it goes offline
+export interface ClientSession {
+  clientId: string
+  clientInfo: InitializeRequest['params']['clientInfo']
+  protocolVersion: string
+  capabilities: InitializeRequest['params']['capabilities']
+  connectedAt: Date
+  initialized: boolean // Set once the client sends notifications/initialized
+  role: string | undefined // RBAC role resolved at initialize
+  logLevel: LoggingLevel // Minimum level set via logging/setLevel
+  state: Record<string, any> // Free-form per-client state for handlers
+}
+
+// Passed to every tool, resource and prompt handler
+export interface RequestContext {
+  clientId: string
+  session: ClientSession
+  requestId: string | number
+  userProperties: Record<string, string | string[]> // MQTT user properties of the request message
+  logger: McpLogger
+  signal: AbortSignal // Aborted when the client sends notifications/cancelled for this request
+  reportProgress(progress: number, total?: number, message?: string): Promise<void> // No-op without a progressToken
+}
+
+// Passed to middleware; unlike RequestContext it exists before the client has initialized
+export interface MiddlewareContext {
+  clientId: string
+  session: ClientSession | undefined // undefined until the client has initialized
+  userProperties: Record<string, string | string[]>
+}
+
+/**
+ * Wraps request handling. Call `next()` to continue down the pipeline, optionally with a
+ * modified request; it resolves to the result or rejects with an McpError. Return a result
+ * or throw an McpError without calling `next()` to short-circuit.
+ */
+export interface Middleware {
+  (request: JSONRPCRequest, context: MiddlewareContext, next: (request?: JSONRPCRequest) => Promise<any>): Promise<any>
+}
+
+// Handles a custom or overridden request method; the result becomes the JSON-RPC result
+export interface RequestHandler<P = Record<string, any>, R = any> {
+  (params: P, context: RequestContext): R | Promise<R>
+}
+
+export interface NotificationContext {
+  clientId: string
+  session: ClientSession | undefined // undefined if the client has not initialized
+  userProperties: Record<string, string | string[]>
+}
+
+export interface NotificationHandler<P = Record<string, any>> {
+  (params: P, context: NotificationContext): void | Promise<void>
+}
 
 export interface ToolHandler {
-  (params: Record<string, any>): Promise<{
-    content: Array<{
-      type: string
-      text?: string
-      data?: string
-      mimeType?: string
-    }>
+  (
+    params: Record<string, any>,
+    context: RequestContext,
+  ): Promise<{
+    content: ContentBlock[]
+    structuredContent?: Record<string, any>
     isError?: boolean
   }>
 }
 
+export interface ToolOptions {
+  title?: string // Human-readable display name
+  annotations?: ToolAnnotations
+  outputSchema?: z.ZodTypeAny // Advertised as JSON Schema and used to validate each result's `structuredContent`
+  timeoutMs?: number // Overrides the server's requestTimeoutMs for this tool
+}
+
+export interface StopOptions {
+  drainTimeoutMs?: number // How long to wait for in-flight requests before aborting them (default: 5000)
+}
+
+export interface TypedToolHandler<T> {
+  (params: T, context: RequestContext): ReturnType<ToolHandler>
+}
+
 export interface ResourceHandler {
-  (): Promise<{
+  (context: RequestContext): Promise<{
     contents: Array<{
       uri: string
       mimeType?: string
@@ -45,12 +170,137 @@ export interface ResourceHandler {
   }>
 }
 
+export interface ResourceTemplateHandler {
+  (uri: string, variables: Record<string, string>, context: RequestContext): ReturnType<ResourceHandler>
+}
+
+export interface PromptHandler {
+  (args: Record<string, string>, context: RequestContext): Promise<GetPromptResult>
+}
+
+// Snapshot of request handling load, see getStats()
+export interface ServerStats {
+  activeRequests: number
+  queuedRequests: number
+  clients: Record<string, { activeRequests: number; queuedRequests: number }>
+  rejectedRequests: { rateLimited: number; queueFull: number } // Since the server was created
+}
+
+// Returned by tool(), resource(), resourceTemplate() and prompt() to change the registration later
+export interface RegisteredItem<U> {
+  readonly enabled: boolean
+  enable(): void
+  disable(): void // Hidden from lists and answered as not found until enabled again
+  update(updates: U): void
+  remove(): void
+}
+
+export interface ToolUpdate {
+  title?: string
+  description?: string
+  annotations?: ToolAnnotations
+  handler?: ToolHandler
+}
+
+export interface ResourceUpdate {
+  name?: string
+  description?: string
+  mimeType?: string
+  handler?: ResourceHandler
+}
+
+export interface ResourceTemplateUpdate {
+  name?: string
+  description?: string
+  mimeType?: string
+  handler?: ResourceTemplateHandler
+}
+
+export interface PromptUpdate {
+  description?: string
+  handler?: PromptHandler
+}
+
+export type RegisteredTool = RegisteredItem<ToolUpdate>
+export type RegisteredResource = RegisteredItem<ResourceUpdate>
+export type RegisteredResourceTemplate = RegisteredItem<ResourceTemplateUpdate>
+export type RegisteredPrompt = RegisteredItem<PromptUpdate>
+
+// Suggests values for a prompt argument or resource template variable
+export interface CompletionProvider {
+  (value: string, context: RequestContext & { arguments: Record<string, string> }): string[] | Promise<string[]>
+}
+
+const LOG_LEVELS = LoggingLevelSchema.options
+const MAX_COMPLETION_VALUES = 100
+const DEFAULT_LOG_LEVEL: LoggingLevel = 'info'
+
+const DEFAULT_LIST_CHANGED_DEBOUNCE_MS = 10
+const DEFAULT_DRAIN_TIMEOUT_MS = 5000
+
+type ListKind = 'tools' | 'resources' | 'prompts'
+
+// Methods answered outside the handler registry
+const RESERVED_METHODS = new Set(['initialize', 'ping'])
+
+// Server-to-client methods that only exist from a given protocol version on
+const VERSION_GATED_METHODS: Record<string, ProtocolFeature> = {
+  'elicitation/create': 'elicitation',
+}
+
+// Rejects with the abort reason, so a handler that ignores its signal cannot hold up the response
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason)
+      return
+    }
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true })
+  })
+}
+
+// Replace content blocks an older client cannot parse with a text description
+function contentForProtocolVersion(block: ContentBlock, protocolVersion: string): ContentBlock {
+  if (block.type === 'audio' && !supportsProtocolFeature(protocolVersion, 'audioContent')) {
+    return { type: 'text', text: `[${block.mimeType} audio omitted]` }
+  }
+  if (block.type === 'resource_link' && !supportsProtocolFeature(protocolVersion, 'resourceLinks')) {
+    return { type: 'text', text: `${block.name}: ${block.uri}` }
+  }
+  return block
+}
+
 export class McpMqttServer extends EventEmitter {
   private mqttAdapter: UniversalMqttAdapter
   private config: McpMqttServerConfig
-  private tools: Map<string, { definition: Tool; handler: ToolHandler }> = new Map()
-  private resources: Map<string, { definition: Resource; handler: ResourceHandler }> = new Map()
-  private isInitialized = false
+  private tools: Map<
+    string,
+    {
+      definition: Tool
+      handler: ToolHandler
+      argsSchema: z.ZodTypeAny | undefined
+      outputSchema: z.ZodTypeAny | undefined
+      timeoutMs: number | undefined
+      enabled: boolean
+    }
+  > = new Map()
+  private resources: Map<string, { definition: Resource; handler: ResourceHandler; enabled: boolean }> = new Map()
+  private resourceTemplates: Map<
+    string,
+    {
+      definition: ResourceTemplate
+      template: UriTemplate
+      handler: ResourceTemplateHandler
+      complete: Record<string, CompletionProvider>
+      enabled: boolean
+    }
+  > = new Map()
+  private prompts: Map<
+    string,
+    { definition: Prompt; handler: PromptHandler; complete: Record<string, CompletionProvider>; enabled: boolean }
+  > = new Map()
+  private pendingListChanges = new Set<ListKind>() // Lists changed since the last list_changed batch
+  private listChangedTimer: ReturnType<typeof setTimeout> | undefined
 
   // Standard MQTT topics following official specification
   private topics: {
@@ -60,7 +310,27 @@ export class McpMqttServer extends EventEmitter {
     rpcPattern: string // $mcp-rpc/{mcp-client-id}/{server-id}/{server-name}
   }
 
-  private connectedClients = new Set<string>() // Track connected client IDs
+  private sessions = new Map<string, ClientSession>() // clientId -> session of each initialized client
+  private inflightRequests = new Map<string, AbortController>() // `${clientId}:${requestId}` -> controller
+  private pendingResponses = new Set<Promise<void>>() // Requests not yet answered, awaited by stop()
+  private stopping = false
+  private pendingClientRequests = new Map<
+    string | number,
+    {
+      resolve: (value: any) => void
+      reject: (error: Error) => void
+      timeout: NodeJS.Timeout
+    }
+  >() // Requests sent to clients, awaiting their response
+  private rbacPolicy: RbacPolicy | undefined
+  private middlewares: Middleware[] = []
+  private requestLimiter: ConcurrencyLimiter
+  private clientBuckets = new Map<string, TokenBucket>() // clientId -> rate limit bucket
+  private toolBuckets = new Map<string, TokenBucket>() // tool name -> rate limit bucket
+  private rejectedRequests = { rateLimited: 0, queueFull: 0 }
+  private requestHandlers: Map<string, (request: JSONRPCRequest, context: RequestContext) => Promise<any>> = new Map()
+  private notificationHandlers: Map<string, NotificationHandler> = new Map()
+  private resourceSubscriptions = new Map<string, Set<string>>() // uri -> subscribed client IDs
 
   constructor(config: McpMqttServerConfig) {
     super()
@@ -76,12 +346,53 @@ export class McpMqttServer extends EventEmitter {
     if (!config.host) {
       throw new Error('host is required')
     }
+    if (config.protocolVersions !== undefined && config.protocolVersions.length === 0) {
+      throw new Error('protocolVersions must not be empty')
+    }
+    if (config.pageSize !== undefined && (!Number.isInteger(config.pageSize) || config.pageSize < 1)) {
+      throw new Error('pageSize must be a positive integer')
+    }
+    if (config.requestTimeoutMs !== undefined && !(config.requestTimeoutMs > 0)) {
+      throw new Error('requestTimeoutMs must be a positive number')
+    }
 
     // Validate serverName format (hierarchical, no + or #)
     if (config.serverName.includes('+') || config.serverName.includes('#')) {
       throw new Error('Server name must not contain + or # characters')
     }
 
+    this.registerBuiltinHandlers()
+
+    const limits = config.limits ?? {}
+    for (const [key, value] of Object.entries({
+      maxConcurrentRequests: limits.maxConcurrentRequests,
+      maxConcurrentRequestsPerClient: limits.maxConcurrentRequestsPerClient,
+    })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(`${key} must be a positive integer`)
+      }
+    }
+    if (limits.maxQueueSize !== undefined && (!Number.isInteger(limits.maxQueueSize) || limits.maxQueueSize < 0)) {
+      throw new Error('maxQueueSize must be a non-negative integer')
+    }
+    for (const rateLimit of [limits.clientRateLimit, ...Object.values(limits.toolRateLimits ?? {})]) {
+      if (rateLimit && (!(rateLimit.requestsPerSecond > 0) || (rateLimit.burst !== undefined && rateLimit.burst < 1))) {
+        throw new Error('Rate limits need requestsPerSecond > 0 and burst >= 1')
+      }
+    }
+    this.requestLimiter = new ConcurrencyLimiter({
+      maxConcurrent: limits.maxConcurrentRequests,
+      maxConcurrentPerKey: limits.maxConcurrentRequestsPerClient,
+      maxQueueSize: limits.maxQueueSize,
+    })
+
+    if (config.rbac) {
+      this.rbacPolicy = new RbacPolicy(config.rbac.roles)
+      if (config.rbac.defaultRole !== undefined && !this.rbacPolicy.hasRole(config.rbac.defaultRole)) {
+        throw new Error(`Unknown default RBAC role: ${config.rbac.defaultRole}`)
+      }
+    }
+
     // Build MQTT connection options from flat config, filtering undefined values
     const mqttOptions: MqttConnectionOptions = {
       host: config.host,
@@ -103,7 +414,7 @@ export class McpMqttServer extends EventEmitter {
             implementation: 'mcp-typescript-sdk',
             serverName: config.serverName,
             description: config.description,
-            rbac: config.rbac,
+            rbac: config.rbac && { roles: config.rbac.roles },
           }),
         },
       },
@@ -130,6 +441,9 @@ export class McpMqttServer extends EventEmitter {
   }
 
   async start(): Promise<void> {
+    // A server can be started again after stop()
+    this.stopping = false
+
     try {
       // User properties are already set via mqttOptions in constructor
 
@@ -147,6 +461,14 @@ export class McpMqttServer extends EventEmitter {
         this.emit('error', error)
       })
 
+      // mqtt.js reconnects on its own; 'connect' fires again once it succeeds
+      this.mqttAdapter.on('reconnect', () => {
+        this.emit('reconnecting')
+      })
+      this.mqttAdapter.on('connect', () => {
+        this.handleReconnect()
+      })
+
       // Publish server online presence with retain flag
       await this.publishServerOnline()
 
@@ -157,8 +479,41 @@ export class McpMqttServer extends EventEmitter {
     }
   }
 
-  async stop(): Promise<void> {
-    // Clear presence before disconnecting
+  /**
+   * Shut down gracefully: refuse new requests, give in-flight requests up to
+   * `drainTimeoutMs` to finish, then abort the rest with SERVER_SHUTTING_DOWN
+   * and tell every connected client. Presence is cleared just before disconnecting.
+   */
+  async stop(options: StopOptions = {}): Promise<void> {
+    this.stopping = true
+
+    await this.drainRequests(options.drainTimeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS)
+
+    for (const [, request] of this.pendingClientRequests) {
+      clearTimeout(request.timeout)
+      request.reject(new Error('Server stopped'))
+    }
+    this.pendingClientRequests.clear()
+
+    clearTimeout(this.listChangedTimer)
+    this.listChangedTimer = undefined
+    this.pendingListChanges.clear()
+
+    const disconnectedNotification: DisconnectedNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/disconnected',
+    }
+    await Promise.allSettled(
+      [...this.sessions.keys()].map((clientId) => this.sendToClient(clientId, disconnectedNotification)),
+    )
+
+    // Clients initialize again after a restart, so nothing tied to their sessions carries over
+    for (const clientId of [...this.sessions.keys()]) {
+      this.removeClient(clientId)
+    }
+    this.toolBuckets.clear()
+
+    // Clear presence last: clients fail requests to a server as soon as its presence is gone
     await this.mqttAdapter.publish(this.topics.presence, '', {
       retain: true,
       userProperties: {
@@ -166,10 +521,42 @@ export class McpMqttServer extends EventEmitter {
         'MCP-MQTT-CLIENT-ID': this.config.serverId,
       },
     })
+
     await this.mqttAdapter.disconnect()
     this.emit('closed')
   }
 
+  private async drainRequests(drainTimeoutMs: number): Promise<void> {
+    if (this.pendingResponses.size > 0 && drainTimeoutMs > 0) {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const deadline = new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, drainTimeoutMs)
+      })
+      await Promise.race([Promise.allSettled([...this.pendingResponses]), deadline])
+      clearTimeout(timer)
+    }
+
+    // Handlers still running past the deadline are aborted and answered with an error
+    for (const [, abortController] of this.inflightRequests) {
+      abortController.abort(new McpError(ErrorCode.SERVER_SHUTTING_DOWN, 'Server stopped before the request completed'))
+    }
+    await Promise.allSettled([...this.pendingResponses])
+  }
+
+  /**
+   * The broker starts a clean session on reconnect and may have published our will,
+   * so restore every subscription and the retained online presence.
+   */
+  private async handleReconnect(): Promise<void> {
+    try {
+      await this.mqttAdapter.resubscribe()
+      await this.publishServerOnline()
+      this.emit('reconnected')
+    } catch (error) {
+      this.emit('error', error)
+    }
+  }
+
   private async publishServerOnline(): Promise<void> {
     const onlineNotification: ServerOnlineNotification = {
       jsonrpc: '2.0',
@@ -177,7 +564,7 @@ export class McpMqttServer extends EventEmitter {
       params: {
         server_name: this.config.serverName,
         description: this.config.description || `MCP Server: ${this.config.name}`,
-        meta: this.config.rbac ? { rbac: this.config.rbac } : undefined,
+        meta: this.config.rbac ? { rbac: { roles: this.config.rbac.roles } } : undefined,
       },
     }
 
@@ -190,52 +577,175 @@ export class McpMqttServer extends EventEmitter {
     })
   }
 
-  tool<T extends z.ZodSchema>(
+  /**
+   * Add a middleware around every client request, including `initialize` on the control topic.
+   * Middleware runs in registration order, before RBAC checks and the built-in handlers.
+   */
+  use(middleware: Middleware): void {
+    if (typeof middleware !== 'function') {
+      throw new Error('Middleware must be a function')
+    }
+    this.middlewares.push(middleware)
+  }
+
+  /**
+   * Handle a request method, replacing the built-in handler if there is one. With a schema,
+   * params are validated (INVALID_PARAMS on failure) and the handler receives the parsed value.
+   * `initialize` and `ping` cannot be overridden.
+   */
+  setRequestHandler<S extends z.ZodTypeAny>(method: string, schema: S, handler: RequestHandler<z.infer<S>>): void
+  setRequestHandler(method: string, handler: RequestHandler): void
+  setRequestHandler(
+    method: string,
+    schemaOrHandler: z.ZodTypeAny | RequestHandler,
+    handlerOrUndefined?: RequestHandler,
+  ): void {
+    const schema = isZodSchema(schemaOrHandler) ? schemaOrHandler : undefined
+    const handler = schema ? handlerOrUndefined : (schemaOrHandler as RequestHandler)
+
+    if (RESERVED_METHODS.has(method)) {
+      throw new Error(`Cannot override ${method}`)
+    }
+    if (typeof handler !== 'function') {
+      throw new Error(`Request handler must be a function: ${method}`)
+    }
+
+    this.requestHandlers.set(method, async (request, context) => {
+      let params: any = request.params ?? {}
+      if (schema) {
+        const parsed = schema.safeParse(params)
+        if (!parsed.success) {
+          throw new McpError(ErrorCode.INVALID_PARAMS, `Invalid params for ${method}`, parsed.error.issues)
+        }
+        params = parsed.data
+      }
+      return handler(params, context)
+    })
+  }
+
+  // Removing a built-in method makes it answer METHOD_NOT_FOUND
+  removeRequestHandler(method: string): void {
+    this.requestHandlers.delete(method)
+  }
+
+  // Handle a client notification, replacing the built-in handler if there is one
+  setNotificationHandler(method: string, handler: NotificationHandler): void {
+    if (typeof handler !== 'function') {
+      throw new Error(`Notification handler must be a function: ${method}`)
+    }
+    this.notificationHandlers.set(method, handler)
+  }
+
+  removeNotificationHandler(method: string): void {
+    this.notificationHandlers.delete(method)
+  }
+
+  tool<T extends z.ZodTypeAny>(
     name: string,
     schema: T,
-    handler: (params: z.infer<T>) => Promise<{
-      content: Array<{
-        type: string
-        text?: string
-        data?: string
-        mimeType?: string
-      }>
-      isError?: boolean
-    }>,
-  ): void
-  tool(name: string, description: string, inputSchema: Record<string, any>, handler: ToolHandler): void
+    handler: TypedToolHandler<z.infer<T>>,
+    options?: ToolOptions,
+  ): RegisteredTool
+  tool<T extends z.ZodTypeAny>(
+    name: string,
+    description: string,
+    schema: T,
+    handler: TypedToolHandler<z.infer<T>>,
+    options?: ToolOptions,
+  ): RegisteredTool
   tool(
-    nameOrSchema: string | z.ZodSchema,
-    descriptionOrSchema?: string | z.ZodSchema,
-    inputSchemaOrHandler?: Record<string, any> | ToolHandler,
-    handlerOrUndefined?: ToolHandler,
-  ): void {
-    let name: string
+    name: string,
+    description: string,
+    inputSchema: Record<string, any>,
+    handler: ToolHandler,
+    options?: ToolOptions,
+  ): RegisteredTool
+  tool(
+    name: string,
+    descriptionOrSchema: string | z.ZodTypeAny,
+    schemaOrHandler: z.ZodTypeAny | Record<string, any> | TypedToolHandler<any>,
+    handlerOrOptions?: ToolHandler | TypedToolHandler<any> | ToolOptions,
+    optionsOrUndefined?: ToolOptions,
+  ): RegisteredTool {
     let description: string | undefined
     let inputSchema: Record<string, any>
+    let argsSchema: z.ZodTypeAny | undefined
     let handler: ToolHandler
+    let options: ToolOptions | undefined
+
+    if (isZodSchema(descriptionOrSchema)) {
+      // tool(name, zodSchema, handler, options?)
+      argsSchema = descriptionOrSchema
+      handler = schemaOrHandler as ToolHandler
+      options = handlerOrOptions as ToolOptions | undefined
+    } else if (isZodSchema(schemaOrHandler)) {
+      // tool(name, description, zodSchema, handler, options?)
+      description = descriptionOrSchema
+      argsSchema = schemaOrHandler
+      handler = handlerOrOptions as ToolHandler
+      options = optionsOrUndefined
+    } else {
+      // tool(name, description, jsonSchema, handler, options?)
+      description = descriptionOrSchema
+      handler = handlerOrOptions as ToolHandler
+      options = optionsOrUndefined
+    }
 
-    if (typeof nameOrSchema === 'string') {
-      name = nameOrSchema
-      description = descriptionOrSchema as string
-      inputSchema = inputSchemaOrHandler as Record<string, any>
-      handler = handlerOrUndefined!
+    if (argsSchema) {
+      inputSchema = zodToJsonSchema(argsSchema)
+      if (inputSchema.type !== 'object') {
+        throw new Error(`Tool input schema must describe an object: ${name}`)
+      }
     } else {
-      throw new Error('Zod schema API not implemented in this overload')
+      inputSchema = schemaOrHandler as Record<string, any>
+    }
+
+    if (typeof handler !== 'function') {
+      throw new Error(`Tool handler must be a function: ${name}`)
+    }
+
+    // Only Zod schemas, since the SDK has no JSON Schema validator to enforce anything else
+    const outputSchema = options?.outputSchema
+    if (outputSchema !== undefined && !isZodSchema(outputSchema)) {
+      throw new Error(`Tool output schema must be a Zod schema: ${name}`)
+    }
+    const outputJsonSchema = outputSchema && zodToJsonSchema(outputSchema)
+    if (outputJsonSchema && outputJsonSchema.type !== 'object') {
+      throw new Error(`Tool output schema must describe an object: ${name}`)
     }
 
     const toolDefinition: Tool = {
       name,
+      ...(options?.title !== undefined && { title: options.title }),
       description,
       inputSchema,
+      ...(outputJsonSchema && { outputSchema: outputJsonSchema }),
+      ...(options?.annotations && { annotations: options.annotations }),
     }
 
-    this.tools.set(name, { definition: toolDefinition, handler })
+    if (options?.timeoutMs !== undefined && !(options.timeoutMs > 0)) {
+      throw new Error(`Tool timeoutMs must be a positive number: ${name}`)
+    }
 
-    // Notify about tools capability change if initialized
-    if (this.isInitialized && this.config.capabilities?.tools?.listChanged) {
-      this.notifyCapabilityChange('notifications/tools/list_changed')
+    const entry = {
+      definition: toolDefinition,
+      handler,
+      argsSchema,
+      outputSchema,
+      timeoutMs: options?.timeoutMs,
+      enabled: true,
     }
+    return this.registerEntry(this.tools, name, entry, 'tools', (updates: ToolUpdate) => {
+      entry.definition = {
+        ...entry.definition,
+        ...(updates.title !== undefined && { title: updates.title }),
+        ...(updates.description !== undefined && { description: updates.description }),
+        ...(updates.annotations !== undefined && { annotations: updates.annotations }),
+      }
+      if (updates.handler) {
+        entry.handler = updates.handler
+      }
+    })
   }
 
   resource(
@@ -246,7 +756,7 @@ export class McpMqttServer extends EventEmitter {
       description?: string
       mimeType?: string
     },
-  ): void {
+  ): RegisteredResource {
     const resourceDefinition: Resource = {
       uri,
       name,
@@ -254,12 +764,203 @@ export class McpMqttServer extends EventEmitter {
       mimeType: options?.mimeType,
     }
 
-    this.resources.set(uri, { definition: resourceDefinition, handler })
+    const entry = { definition: resourceDefinition, handler, enabled: true }
+    return this.registerEntry(this.resources, uri, entry, 'resources', (updates: ResourceUpdate) => {
+      entry.definition = {
+        ...entry.definition,
+        ...(updates.name !== undefined && { name: updates.name }),
+        ...(updates.description !== undefined && { description: updates.description }),
+        ...(updates.mimeType !== undefined && { mimeType: updates.mimeType }),
+      }
+      if (updates.handler) {
+        entry.handler = updates.handler
+      }
+    })
+  }
 
-    // Notify about resources capability change if initialized
-    if (this.isInitialized && this.config.capabilities?.resources?.listChanged) {
-      this.notifyCapabilityChange('notifications/resources/list_changed')
+  resourceTemplate(
+    uriTemplate: string,
+    name: string,
+    handler: ResourceTemplateHandler,
+    options?: {
+      description?: string
+      mimeType?: string
+      complete?: Record<string, CompletionProvider> // Completion providers keyed by variable name
+    },
+  ): RegisteredResourceTemplate {
+    const template = new UriTemplate(uriTemplate)
+    const complete = options?.complete ?? {}
+    for (const variable of Object.keys(complete)) {
+      if (!template.variableNames.includes(variable)) {
+        throw new Error(`Completion provider for unknown variable ${variable} in ${uriTemplate}`)
+      }
+    }
+    const templateDefinition: ResourceTemplate = {
+      uriTemplate,
+      name,
+      description: options?.description,
+      mimeType: options?.mimeType,
     }
+
+    const entry = { definition: templateDefinition, template, handler, complete, enabled: true }
+    return this.registerEntry(
+      this.resourceTemplates,
+      uriTemplate,
+      entry,
+      'resources',
+      (updates: ResourceTemplateUpdate) => {
+        entry.definition = {
+          ...entry.definition,
+          ...(updates.name !== undefined && { name: updates.name }),
+          ...(updates.description !== undefined && { description: updates.description }),
+          ...(updates.mimeType !== undefined && { mimeType: updates.mimeType }),
+        }
+        if (updates.handler) {
+          entry.handler = updates.handler
+        }
+      },
+    )
+  }
+
+  prompt(
+    name: string,
+    args: PromptArgument[],
+    handler: PromptHandler,
+    options?: {
+      description?: string
+      complete?: Record<string, CompletionProvider> // Completion providers keyed by argument name
+    },
+  ): RegisteredPrompt {
+    const complete = options?.complete ?? {}
+    for (const argument of Object.keys(complete)) {
+      if (!args.some((arg) => arg.name === argument)) {
+        throw new Error(`Completion provider for unknown argument ${argument} of prompt ${name}`)
+      }
+    }
+
+    const promptDefinition: Prompt = {
+      name,
+      description: options?.description,
+      arguments: args,
+    }
+
+    const entry = { definition: promptDefinition, handler, complete, enabled: true }
+    return this.registerEntry(this.prompts, name, entry, 'prompts', (updates: PromptUpdate) => {
+      entry.definition = {
+        ...entry.definition,
+        ...(updates.description !== undefined && { description: updates.description }),
+      }
+      if (updates.handler) {
+        entry.handler = updates.handler
+      }
+    })
+  }
+
+  // Each remove* returns whether something was registered under that key
+  removeTool(name: string): boolean {
+    return this.removeEntry(this.tools, name, 'tools')
+  }
+
+  removeResource(uri: string): boolean {
+    return this.removeEntry(this.resources, uri, 'resources')
+  }
+
+  removeResourceTemplate(uriTemplate: string): boolean {
+    return this.removeEntry(this.resourceTemplates, uriTemplate, 'resources')
+  }
+
+  removePrompt(name: string): boolean {
+    return this.removeEntry(this.prompts, name, 'prompts')
+  }
+
+  /**
+   * Store a registration and return its handle. The handle keeps working until the entry
+   * is removed or replaced by a registration under the same key.
+   */
+  private registerEntry<E extends { enabled: boolean }, U>(
+    map: Map<string, E>,
+    key: string,
+    entry: E,
+    kind: ListKind,
+    applyUpdate: (updates: U) => void,
+  ): RegisteredItem<U> {
+    map.set(key, entry)
+    this.scheduleListChanged(kind)
+
+    const assertRegistered = () => {
+      if (map.get(key) !== entry) {
+        throw new Error(`No longer registered: ${key}`)
+      }
+    }
+    const setEnabled = (enabled: boolean) => {
+      assertRegistered()
+      if (entry.enabled !== enabled) {
+        entry.enabled = enabled
+        this.scheduleListChanged(kind)
+      }
+    }
+
+    return {
+      get enabled() {
+        return map.get(key) === entry && entry.enabled
+      },
+      enable: () => setEnabled(true),
+      disable: () => setEnabled(false),
+      update: (updates: U) => {
+        assertRegistered()
+        applyUpdate(updates)
+        this.scheduleListChanged(kind)
+      },
+      remove: () => {
+        if (map.get(key) === entry) {
+          this.removeEntry(map, key, kind)
+        }
+      },
+    }
+  }
+
+  private removeEntry(map: Map<string, unknown>, key: string, kind: ListKind): boolean {
+    const removed = map.delete(key)
+    if (removed) {
+      if (kind === 'resources') {
+        this.dropOrphanedSubscriptions()
+      }
+      this.scheduleListChanged(kind)
+    }
+    return removed
+  }
+
+  // Forget subscriptions to URIs that no remaining resource or template serves
+  private dropOrphanedSubscriptions(): void {
+    for (const uri of this.resourceSubscriptions.keys()) {
+      const served =
+        this.resources.has(uri) ||
+        Array.from(this.resourceTemplates.values()).some(({ template }) => template.match(uri) !== null)
+      if (!served) {
+        this.resourceSubscriptions.delete(uri)
+      }
+    }
+  }
+
+  // Coalesce changes into one list_changed notification per list and debounce window
+  private scheduleListChanged(kind: ListKind): void {
+    if (this.sessions.size === 0 || !this.config.capabilities?.[kind]?.listChanged) {
+      return
+    }
+
+    this.pendingListChanges.add(kind)
+    if (this.listChangedTimer) {
+      return
+    }
+    this.listChangedTimer = setTimeout(() => {
+      this.listChangedTimer = undefined
+      for (const pendingKind of this.pendingListChanges) {
+        this.notifyCapabilityChange(`notifications/${pendingKind}/list_changed`).catch((error) => {
+          console.error('Failed to send list_changed notification:', error)
+        })
+      }
+      this.pendingListChanges.clear()
+    }, this.config.listChangedDebounceMs ?? DEFAULT_LIST_CHANGED_DEBOUNCE_MS)
   }
 
   private async notifyCapabilityChange(method: string): Promise<void> {
@@ -276,6 +977,211 @@ export class McpMqttServer extends EventEmitter {
     })
   }
 
+  async notifyResourceUpdated(uri: string): Promise<void> {
+    const subscribers = this.resourceSubscriptions.get(uri)
+    if (!subscribers || subscribers.size === 0) {
+      return
+    }
+
+    const notification: ResourceUpdatedNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/resources/updated',
+      params: { uri },
+    }
+
+    await Promise.all(Array.from(subscribers).map((clientId) => this.sendToClient(clientId, notification)))
+  }
+
+  /**
+   * Ask a client to sample an LLM via `sampling/createMessage`.
+   * The client must have declared the `sampling` capability during initialization.
+   */
+  async requestSampling(
+    clientId: string,
+    params: CreateMessageRequest['params'],
+    options?: { timeout?: number },
+  ): Promise<CreateMessageResult> {
+    if (!this.sessions.get(clientId)?.capabilities.sampling) {
+      throw new Error(`Client does not support sampling: ${clientId}`)
+    }
+    const result = await this.sendClientRequest(clientId, 'sampling/createMessage', params, options?.timeout ?? 60000)
+    return CreateMessageResultSchema.parse(result)
+  }
+
+  /**
+   * Ask a client for its filesystem roots via `roots/list`.
+   * The client must have declared the `roots` capability during initialization.
+   */
+  async listRoots(clientId: string, options?: { timeout?: number }): Promise<ListRootsResult> {
+    if (!this.sessions.get(clientId)?.capabilities.roots) {
+      throw new Error(`Client does not support roots: ${clientId}`)
+    }
+    const result = await this.sendClientRequest(clientId, 'roots/list', {}, options?.timeout ?? 30000)
+    return ListRootsResultSchema.parse(result)
+  }
+
+  /**
+   * Send any request method to a client, for example one registered with the client's
+   * `setRequestHandler`. With `resultSchema`, the result is validated and parsed.
+   */
+  async request<S extends z.ZodTypeAny>(
+    clientId: string,
+    method: string,
+    params: Record<string, any> | undefined,
+    resultSchema: S,
+    options?: { timeout?: number },
+  ): Promise<z.infer<S>>
+  async request(
+    clientId: string,
+    method: string,
+    params?: Record<string, any>,
+    resultSchema?: undefined,
+    options?: { timeout?: number },
+  ): Promise<any>
+  async request(
+    clientId: string,
+    method: string,
+    params?: Record<string, any>,
+    resultSchema?: z.ZodTypeAny,
+    options?: { timeout?: number },
+  ): Promise<any> {
+    const result = await this.sendClientRequest(clientId, method, params ?? {}, options?.timeout ?? 30000)
+    if (!resultSchema) {
+      return result
+    }
+
+    const parsed = resultSchema.safeParse(result)
+    if (!parsed.success) {
+      throw new McpError(ErrorCode.INVALID_MESSAGE, `Invalid result for ${method}`, parsed.error.issues)
+    }
+    return parsed.data
+  }
+
+  // Send any notification method to an initialized client
+  async notify(clientId: string, method: string, params?: Record<string, any>): Promise<void> {
+    if (!this.sessions.has(clientId)) {
+      throw new Error(`Client not connected: ${clientId}`)
+    }
+    await this.sendToClient(clientId, createNotification(method, params))
+  }
+
+  private async sendClientRequest(
+    clientId: string,
+    method: string,
+    params: Record<string, any>,
+    timeoutMs: number,
+  ): Promise<any> {
+    const session = this.sessions.get(clientId)
+    if (!session) {
+      throw new Error(`Client not connected: ${clientId}`)
+    }
+    const feature = VERSION_GATED_METHODS[method]
+    if (feature && !supportsProtocolFeature(session.protocolVersion, feature)) {
+      throw new Error(`${method} requires a newer protocol version than ${session.protocolVersion}`)
+    }
+
+    const request = createRequest(method, params)
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingClientRequests.delete(request.id)
+        reject(new Error(`Request timeout: ${method} (${timeoutMs}ms)`))
+      }, timeoutMs)
+
+      this.pendingClientRequests.set(request.id, { resolve, reject, timeout })
+
+      this.sendToClient(clientId, request).catch((error) => {
+        this.pendingClientRequests.delete(request.id)
+        clearTimeout(timeout)
+        reject(error)
+      })
+    })
+  }
+
+  /**
+   * Send a `notifications/message` log entry to a client, unless it is below
+   * the level the client selected with `logging/setLevel` (default: info).
+   */
+  async sendLogMessage(clientId: string, level: LoggingLevel, data: unknown, logger?: string): Promise<void> {
+    const minimumLevel = this.sessions.get(clientId)?.logLevel ?? DEFAULT_LOG_LEVEL
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimumLevel)) {
+      return
+    }
+
+    const notification: LoggingMessageNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params: {
+        level,
+        data,
+        ...(logger !== undefined && { logger }),
+      },
+    }
+    await this.sendToClient(clientId, notification)
+  }
+
+  private createRequestContext(
+    request: JSONRPCRequest,
+    session: ClientSession,
+    userProperties: Record<string, string | string[]>,
+  ): RequestContext {
+    const { clientId } = session
+    const log = (level: LoggingLevel, data: unknown, logger?: string) =>
+      this.sendLogMessage(clientId, level, data, logger).catch((error) => {
+        console.error('Failed to send log message:', error)
+      })
+
+    const abortController = this.inflightRequests.get(this.getRequestKey(clientId, request.id))
+    const progressToken = ProgressTokenSchema.safeParse(request.params?._meta?.progressToken)
+
+    const reportProgress = async (progress: number, total?: number, message?: string) => {
+      if (!progressToken.success) {
+        return
+      }
+      const notification: ProgressNotification = {
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: {
+          progressToken: progressToken.data,
+          progress,
+          ...(total !== undefined && { total }),
+          ...(message !== undefined && { message }),
+        },
+      }
+      await this.sendToClient(clientId, notification)
+    }
+
+    return {
+      clientId,
+      session,
+      requestId: request.id,
+      userProperties,
+      signal: (abortController ?? new AbortController()).signal,
+      reportProgress,
+      logger: {
+        log,
+        debug: (data, logger) => log('debug', data, logger),
+        info: (data, logger) => log('info', data, logger),
+        notice: (data, logger) => log('notice', data, logger),
+        warning: (data, logger) => log('warning', data, logger),
+        error: (data, logger) => log('error', data, logger),
+        critical: (data, logger) => log('critical', data, logger),
+        alert: (data, logger) => log('alert', data, logger),
+        emergency: (data, logger) => log('emergency', data, logger),
+      },
+    }
+  }
+
+  private async sendToClient(clientId: string, message: Record<string, any>): Promise<void> {
+    const rpcTopic = `$mcp-rpc/${clientId}/${this.config.serverId}/${this.config.serverName}`
+    await this.mqttAdapter.publish(rpcTopic, JSON.stringify(message), {
+      userProperties: {
+        'MCP-COMPONENT-TYPE': 'mcp-server',
+        'MCP-MQTT-CLIENT-ID': this.config.serverId,
+      },
+    })
+  }
+
   private async handleMessage(topic: string, message: string, packet: any): Promise<void> {
     try {
       // Extract client ID from topic if it's an RPC message
@@ -294,16 +1200,16 @@ export class McpMqttServer extends EventEmitter {
       }
 
       // For control messages, extract client ID from user properties
+      const userProperties = packet?.properties?.userProperties || {}
       if (topic === this.topics.control) {
-        const userProperties = packet?.properties?.userProperties || {}
         clientId = userProperties['MCP-MQTT-CLIENT-ID']
       }
 
       // Handle different message types based on topic
       if (topic === this.topics.control) {
-        await this.handleControlMessage(message, clientId)
+        await this.handleControlMessage(message, clientId, userProperties)
       } else if (topic.startsWith('$mcp-rpc/')) {
-        await this.handleRpcMessage(message, clientId!)
+        await this.handleRpcMessage(message, clientId!, userProperties)
       } else if (topic.startsWith('$mcp-client/capability/')) {
         this.handleClientCapabilityChange(message, clientId!)
       } else if (topic.startsWith('$mcp-client/presence/')) {
@@ -315,7 +1221,11 @@ export class McpMqttServer extends EventEmitter {
     this.emit('message', topic, message, packet)
   }
 
-  private async handleControlMessage(message: string, clientId?: string): Promise<void> {
+  private async handleControlMessage(
+    message: string,
+    clientId: string | undefined,
+    userProperties: Record<string, string | string[]>,
+  ): Promise<void> {
     const parsedMessage = JSON.parse(message)
 
     if (
@@ -325,75 +1235,308 @@ export class McpMqttServer extends EventEmitter {
       clientId
     ) {
       const request = parsedMessage as InitializeRequest
-      const response = await this.handleInitialize(request, clientId)
+      let response: JSONRPCResponse
+
+      try {
+        if (this.stopping) {
+          throw new McpError(ErrorCode.SERVER_SHUTTING_DOWN, 'Server is shutting down')
+        }
+        const context = { clientId, session: this.sessions.get(clientId), userProperties }
+        const result = await this.runMiddleware(request, context, (current) =>
+          this.handleInitialize(current as InitializeRequest, clientId, userProperties),
+        )
+        response = createResponse(request.id, result)
+      } catch (error) {
+        response = this.createErrorResponse(request.id, error)
+      }
 
       // Respond via RPC topic
-      const rpcTopic = `$mcp-rpc/${clientId}/${this.config.serverId}/${this.config.serverName}`
-      await this.mqttAdapter.publish(rpcTopic, JSON.stringify(response), {
-        userProperties: {
-          'MCP-COMPONENT-TYPE': 'mcp-server',
-          'MCP-MQTT-CLIENT-ID': this.config.serverId,
-        },
-      })
+      await this.sendToClient(clientId, response)
+
+      // Middleware may have rejected the client or answered without creating a session
+      if (response.error || !this.sessions.has(clientId)) {
+        return
+      }
 
       // Subscribe to client-specific topics before responding according to specification
       await this.mqttAdapter.subscribe(`$mcp-client/capability/${clientId}`)
       await this.mqttAdapter.subscribe(`$mcp-client/presence/${clientId}`)
 
-      this.connectedClients.add(clientId)
+      this.emit('clientConnected', this.sessions.get(clientId))
     }
   }
 
-  private async handleRpcMessage(message: string, clientId: string): Promise<void> {
+  private async handleRpcMessage(
+    message: string,
+    clientId: string,
+    userProperties: Record<string, string | string[]>,
+  ): Promise<void> {
     const parsedMessage = JSON.parse(message)
 
-    if (!parsedMessage.method || !parsedMessage.id) {
+    if (!parsedMessage.method) {
+      this.handleClientResponse(parsedMessage)
+      return
+    }
+    if (parsedMessage.id === undefined || parsedMessage.id === null) {
+      this.handleClientNotification(parsedMessage, clientId, userProperties)
       return
     }
 
     const request = parsedMessage as JSONRPCRequest
+    if (this.stopping) {
+      const error = new McpError(ErrorCode.SERVER_SHUTTING_DOWN, 'Server is shutting down')
+      await this.sendToClient(clientId, this.createErrorResponse(request.id, error))
+      return
+    }
+
+    const handling = this.handleRpcRequest(request, clientId, userProperties)
+    this.pendingResponses.add(handling)
+    try {
+      await handling
+    } finally {
+      this.pendingResponses.delete(handling)
+    }
+  }
+
+  private async handleRpcRequest(
+    request: JSONRPCRequest,
+    clientId: string,
+    userProperties: Record<string, string | string[]>,
+  ): Promise<void> {
+    const requestKey = this.getRequestKey(clientId, request.id)
+    const abortController = new AbortController()
+    this.inflightRequests.set(requestKey, abortController)
     let response: JSONRPCResponse
+    let release: (() => void) | undefined
+    let handling: Promise<any> | undefined
+    let timer: ReturnType<typeof setTimeout> | undefined
 
     try {
-      switch (request.method) {
-        case 'tools/list':
-          response = this.handleToolsList(request)
-          break
-        case 'tools/call':
-          response = await this.handleToolCall(request as CallToolRequest)
-          break
-        case 'resources/list':
-          response = this.handleResourcesList(request)
-          break
-        case 'resources/read':
-          response = await this.handleResourceRead(request as ReadResourceRequest)
-          break
-        case 'ping':
-          response = createResponse(request.id, { pong: true })
-          break
-        default:
-          response = createResponse(request.id, undefined, {
-            code: ErrorCode.METHOD_NOT_FOUND,
-            message: `Method not found: ${request.method}`,
-          })
+      // Backpressure comes first so that overload never reaches middleware or handlers; ping is exempt
+      if (request.method !== 'ping') {
+        this.checkRateLimits(request, clientId)
+        release = await this.acquireRequestSlot(clientId, abortController.signal)
+      }
+
+      const timeoutMs = this.getRequestTimeout(request)
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          const message = `Request timed out after ${timeoutMs}ms: ${request.method}`
+          abortController.abort(new McpError(ErrorCode.REQUEST_TIMEOUT, message))
+        }, timeoutMs)
       }
+
+      const context = { clientId, session: this.sessions.get(clientId), userProperties }
+      handling = this.runMiddleware(request, context, (current) =>
+        this.handleRequest(current, clientId, userProperties),
+      )
+      const result = await Promise.race([handling, rejectOnAbort(abortController.signal)])
+      response = createResponse(request.id, result)
     } catch (error) {
-      const mcpError =
-        error instanceof McpError
-          ? error
-          : new McpError(ErrorCode.INTERNAL_ERROR, error instanceof Error ? error.message : 'Internal error')
+      const { reason } = abortController.signal
+      response = this.createErrorResponse(request.id, reason instanceof McpError ? reason : error)
+    } finally {
+      clearTimeout(timer)
+      // A cancelled or timed-out handler may still be running, so it keeps its slot until it settles
+      if (release) {
+        const settled = handling ?? Promise.resolve()
+        settled.then(release, release)
+      }
+      this.inflightRequests.delete(requestKey)
+    }
 
-      response = createResponse(request.id, undefined, mcpError.toJSON())
+    // The client is no longer waiting for a request it cancelled; timeouts and shutdown aborts carry an McpError
+    if (abortController.signal.aborted && !(abortController.signal.reason instanceof McpError)) {
+      return
     }
 
     // Send response back via RPC topic
-    const rpcTopic = `$mcp-rpc/${clientId}/${this.config.serverId}/${this.config.serverName}`
-    await this.mqttAdapter.publish(rpcTopic, JSON.stringify(response), {
-      userProperties: {
-        'MCP-COMPONENT-TYPE': 'mcp-server',
-        'MCP-MQTT-CLIENT-ID': this.config.serverId,
-      },
+    await this.sendToClient(clientId, response)
+  }
+
+  private getRequestTimeout(request: JSONRPCRequest): number | undefined {
+    if (request.method === 'tools/call') {
+      const timeoutMs = this.tools.get(request.params?.name)?.timeoutMs
+      if (timeoutMs !== undefined) {
+        return timeoutMs
+      }
+    }
+    return this.config.requestTimeoutMs
+  }
+
+  private checkRateLimits(request: JSONRPCRequest, clientId: string): void {
+    const { clientRateLimit, toolRateLimits } = this.config.limits ?? {}
+
+    if (clientRateLimit) {
+      this.takeRateLimitToken(
+        this.clientBuckets,
+        clientId,
+        clientRateLimit,
+        `Rate limit exceeded for client ${clientId}`,
+      )
+    }
+
+    const toolName = request.method === 'tools/call' ? request.params?.name : undefined
+    const toolRateLimit = typeof toolName === 'string' ? toolRateLimits?.[toolName] : undefined
+    if (toolName && toolRateLimit) {
+      this.takeRateLimitToken(this.toolBuckets, toolName, toolRateLimit, `Rate limit exceeded for tool ${toolName}`)
+    }
+  }
+
+  private takeRateLimitToken(buckets: Map<string, TokenBucket>, key: string, limit: RateLimit, message: string): void {
+    let bucket = buckets.get(key)
+    if (!bucket) {
+      bucket = createTokenBucket(limit)
+      buckets.set(key, bucket)
+    }
+
+    const retryAfterMs = bucket.take()
+    if (retryAfterMs > 0) {
+      this.rejectedRequests.rateLimited += 1
+      throw new McpError(ErrorCode.RATE_LIMITED, message, { retryAfterMs })
+    }
+  }
+
+  private async acquireRequestSlot(clientId: string, signal: AbortSignal): Promise<() => void> {
+    try {
+      return await this.requestLimiter.acquire(clientId, signal)
+    } catch (error) {
+      if (error instanceof McpError && error.code === ErrorCode.QUEUE_FULL) {
+        this.rejectedRequests.queueFull += 1
+      }
+      throw error
+    }
+  }
+
+  // Innermost step of the middleware pipeline for RPC requests
+  private async handleRequest(
+    request: JSONRPCRequest,
+    clientId: string,
+    userProperties: Record<string, string | string[]>,
+  ): Promise<any> {
+    if (request.method === 'ping') {
+      return { pong: true }
+    }
+
+    const session = this.sessions.get(clientId)
+    if (!session) {
+      throw new McpError(ErrorCode.INVALID_REQUEST, `Client not initialized: ${clientId}`)
+    }
+    this.checkPermission(request, session)
+
+    const handler = this.requestHandlers.get(request.method)
+    if (!handler) {
+      throw new McpError(ErrorCode.METHOD_NOT_FOUND, `Method not found: ${request.method}`)
+    }
+    return handler(request, this.createRequestContext(request, session, userProperties))
+  }
+
+  private runMiddleware(
+    request: JSONRPCRequest,
+    context: MiddlewareContext,
+    handler: (request: JSONRPCRequest) => Promise<any>,
+  ): Promise<any> {
+    const dispatch = async (index: number, current: JSONRPCRequest): Promise<any> => {
+      const middleware = this.middlewares[index]
+      if (!middleware) {
+        return handler(current)
+      }
+
+      let nextCalled = false
+      return middleware(current, context, (next = current) => {
+        if (nextCalled) {
+          return Promise.reject(new Error('next() called multiple times'))
+        }
+        nextCalled = true
+        return dispatch(index + 1, next)
+      })
+    }
+
+    return dispatch(0, request)
+  }
+
+  private createErrorResponse(id: string | number, error: unknown): JSONRPCResponse {
+    const mcpError =
+      error instanceof McpError
+        ? error
+        : new McpError(ErrorCode.INTERNAL_ERROR, error instanceof Error ? error.message : 'Internal error')
+
+    return createResponse(id, undefined, mcpError.toJSON())
+  }
+
+  private registerBuiltinHandlers(): void {
+    const handlers: Record<string, (request: any, context: RequestContext) => unknown> = {
+      'tools/list': (request, { session }) => this.handleToolsList(request, session),
+      'tools/call': (request, context) => this.handleToolCall(request, context),
+      'resources/list': (request, { session }) => this.handleResourcesList(request, session),
+      'resources/subscribe': (request, { session }) => this.handleResourceSubscription(request, session),
+      'resources/unsubscribe': (request, { session }) => this.handleResourceSubscription(request, session),
+      'resources/templates/list': (request, { session }) => this.handleResourceTemplatesList(request, session),
+      'resources/read': (request, context) => this.handleResourceRead(request, context),
+      'prompts/list': (request) => this.handlePromptsList(request),
+      'prompts/get': (request, context) => this.handlePromptGet(request, context),
+      'logging/setLevel': (request, { session }) => this.handleSetLevel(request, session),
+      'completion/complete': (request, context) => this.handleComplete(request, context),
+    }
+    for (const [method, handler] of Object.entries(handlers)) {
+      this.requestHandlers.set(method, async (request, context) => handler(request, context))
+    }
+
+    this.notificationHandlers.set('notifications/initialized', (_params, { session }) => {
+      if (session && !session.initialized) {
+        session.initialized = true
+        this.emit('clientInitialized', session)
+      }
     })
+    this.notificationHandlers.set('notifications/cancelled', (params, { clientId }) => {
+      const result = CancelledNotificationSchema.shape.params.safeParse(params)
+      if (!result.success) {
+        console.error('Invalid cancelled notification:', result.error)
+        return
+      }
+      const { requestId, reason } = result.data
+      this.inflightRequests.get(this.getRequestKey(clientId, requestId))?.abort(reason ?? 'Request cancelled')
+    })
+  }
+
+  private handleClientResponse(response: JSONRPCResponse): void {
+    const pendingRequest = response.id !== undefined ? this.pendingClientRequests.get(response.id) : undefined
+    if (!pendingRequest) {
+      return
+    }
+
+    this.pendingClientRequests.delete(response.id)
+    clearTimeout(pendingRequest.timeout)
+
+    if (response.error) {
+      pendingRequest.reject(new McpError(response.error.code, response.error.message, response.error.data))
+    } else {
+      pendingRequest.resolve(response.result)
+    }
+  }
+
+  private handleClientNotification(
+    notification: Record<string, any>,
+    clientId: string,
+    userProperties: Record<string, string | string[]>,
+  ): void {
+    const handler = this.notificationHandlers.get(notification.method)
+    if (!handler) {
+      return
+    }
+
+    const context = { clientId, session: this.sessions.get(clientId), userProperties }
+    try {
+      Promise.resolve(handler(notification.params ?? {}, context)).catch((error) => {
+        console.error(`Notification handler failed for ${notification.method}:`, error)
+      })
+    } catch (error) {
+      console.error(`Notification handler failed for ${notification.method}:`, error)
+    }
+  }
+
+  private getRequestKey(clientId: string, requestId: string | number): string {
+    return `${clientId}:${typeof requestId}:${requestId}`
   }
 
   private handleClientCapabilityChange(message: string, clientId: string): void {
@@ -404,7 +1547,7 @@ export class McpMqttServer extends EventEmitter {
   private async handleClientPresence(message: string, clientId: string): Promise<void> {
     if (!message.trim()) {
       // If empty message, client disconnected unexpectedly
-      this.connectedClients.delete(clientId)
+      this.removeClient(clientId)
       return
     }
 
@@ -414,7 +1557,7 @@ export class McpMqttServer extends EventEmitter {
       DisconnectedNotificationSchema.parse(parsedMessage)
 
       // Client disconnected gracefully
-      this.connectedClients.delete(clientId)
+      this.removeClient(clientId)
 
       // Unsubscribe from client-specific topics
       await this.mqttAdapter.unsubscribe(`$mcp-client/capability/${clientId}`)
@@ -422,56 +1565,157 @@ export class McpMqttServer extends EventEmitter {
     } catch (error) {
       console.error('Failed to parse client disconnection message:', error)
       // Still remove the client on parse error
-      this.connectedClients.delete(clientId)
+      this.removeClient(clientId)
     }
   }
 
-  private async handleInitialize(request: InitializeRequest, _clientId: string): Promise<JSONRPCResponse> {
+  private removeClient(clientId: string): void {
+    const wasConnected = this.sessions.delete(clientId)
+    this.clientBuckets.delete(clientId)
+
+    for (const [uri, subscribers] of this.resourceSubscriptions) {
+      subscribers.delete(clientId)
+      if (subscribers.size === 0) {
+        this.resourceSubscriptions.delete(uri)
+      }
+    }
+
+    if (wasConnected) {
+      this.emit('clientDisconnected', clientId)
+    }
+  }
+
+  private async resolveClientRole(
+    clientId: string,
+    userProperties: Record<string, string | string[]>,
+  ): Promise<string | undefined> {
+    let role: string | undefined
+    try {
+      if (this.config.roleResolver) {
+        role = await this.config.roleResolver(clientId, userProperties)
+      } else if (this.config.rbac?.trustClientRole) {
+        // Clients can set any user property, so this is only safe when the broker vets it
+        const property = userProperties['MCP-RBAC-ROLE']
+        role = Array.isArray(property) ? property[0] : property
+      }
+    } catch (error) {
+      console.error(`Failed to resolve RBAC role for client ${clientId}:`, error)
+    }
+    return role ?? this.config.rbac?.defaultRole
+  }
+
+  private checkPermission(request: JSONRPCRequest, session: ClientSession): void {
+    if (!this.rbacPolicy) {
+      return
+    }
+
+    const { role } = session
+    if (!this.rbacPolicy.isMethodAllowed(role, request.method)) {
+      throw new McpError(ErrorCode.PERMISSION_DENIED, `Permission denied: ${request.method}`, { role })
+    }
+
+    const params = request.params ?? {}
+    if (request.method === 'tools/call' && typeof params.name === 'string') {
+      if (!this.rbacPolicy.isToolAllowed(role, params.name)) {
+        throw new McpError(ErrorCode.PERMISSION_DENIED, `Permission denied for tool: ${params.name}`, { role })
+      }
+    }
+    if (
+      (request.method === 'resources/read' || request.method === 'resources/subscribe') &&
+      typeof params.uri === 'string'
+    ) {
+      if (!this.rbacPolicy.isResourceAllowed(role, params.uri)) {
+        throw new McpError(ErrorCode.PERMISSION_DENIED, `Permission denied for resource: ${params.uri}`, { role })
+      }
+    }
+  }
+
+  private async handleInitialize(
+    request: InitializeRequest,
+    clientId: string,
+    userProperties: Record<string, string | string[]>,
+  ): Promise<Record<string, any>> {
     try {
       InitializeRequestSchema.parse(request)
-      this.isInitialized = true
-
-      return createResponse(request.id, {
-        protocolVersion: '2024-11-05',
-        capabilities: {
-          logging: {},
-          prompts: {
-            listChanged: this.config.capabilities?.prompts?.listChanged ?? false,
-          },
-          resources: {
-            subscribe: this.config.capabilities?.resources?.subscribe ?? false,
-            listChanged: this.config.capabilities?.resources?.listChanged ?? false,
-          },
-          tools: {
-            listChanged: this.config.capabilities?.tools?.listChanged ?? false,
-          },
-          ...this.config.capabilities,
-        },
-        serverInfo: { name: this.config.name, version: this.config.version },
-      })
     } catch (error) {
       throw new McpError(ErrorCode.INVALID_PARAMS, 'Invalid initialize request')
     }
+
+    const protocolVersion = negotiateProtocolVersion(
+      request.params.protocolVersion,
+      this.config.protocolVersions ?? SUPPORTED_PROTOCOL_VERSIONS,
+    )
+
+    // A repeated initialize starts a fresh session
+    this.sessions.set(clientId, {
+      clientId,
+      clientInfo: request.params.clientInfo,
+      protocolVersion,
+      capabilities: request.params.capabilities,
+      connectedAt: new Date(),
+      initialized: false,
+      role: this.rbacPolicy ? await this.resolveClientRole(clientId, userProperties) : undefined,
+      logLevel: DEFAULT_LOG_LEVEL,
+      state: {},
+    })
+
+    return {
+      protocolVersion,
+      capabilities: {
+        logging: {},
+        ...(supportsProtocolFeature(protocolVersion, 'completions') && { completions: {} }),
+        prompts: {
+          listChanged: this.config.capabilities?.prompts?.listChanged ?? false,
+        },
+        resources: {
+          subscribe: this.config.capabilities?.resources?.subscribe ?? false,
+          listChanged: this.config.capabilities?.resources?.listChanged ?? false,
+        },
+        tools: {
+          listChanged: this.config.capabilities?.tools?.listChanged ?? false,
+        },
+        ...this.config.capabilities,
+      },
+      serverInfo: { name: this.config.name, version: this.config.version },
+    }
   }
 
-  private handleToolsList(request: JSONRPCRequest): JSONRPCResponse {
-    const toolsList = Array.from(this.tools.values()).map(({ definition }) => definition)
-    return createResponse(request.id, { tools: toolsList })
+  private handleToolsList(request: JSONRPCRequest, session: ClientSession): ListToolsResult {
+    const { role } = session
+    const toolsList = Array.from(this.tools.values())
+      .filter(({ enabled }) => enabled)
+      .map(({ definition }) => definition)
+      .filter((tool) => !this.rbacPolicy || this.rbacPolicy.isToolAllowed(role, tool.name))
+      .map((tool) => this.toolForProtocolVersion(tool, session.protocolVersion))
+    const { page, nextCursor } = paginate(toolsList, request.params?.cursor, this.config.pageSize)
+    return { tools: page, ...(nextCursor && { nextCursor }) }
   }
 
-  private async handleToolCall(request: CallToolRequest): Promise<JSONRPCResponse> {
+  private async handleToolCall(
+    request: CallToolRequest,
+    context: RequestContext,
+  ): Promise<Awaited<ReturnType<ToolHandler>>> {
     try {
       CallToolRequestSchema.parse(request)
 
       const toolName = request.params.name
       const toolEntry = this.tools.get(toolName)
 
-      if (!toolEntry) {
+      if (!toolEntry?.enabled) {
         throw new McpError(ErrorCode.TOOL_NOT_FOUND, `Tool not found: ${toolName}`)
       }
 
-      const result = await toolEntry.handler(request.params.arguments ?? {})
-      return createResponse(request.id, result)
+      let args: Record<string, any> = request.params.arguments ?? {}
+      if (toolEntry.argsSchema) {
+        const parsed = toolEntry.argsSchema.safeParse(args)
+        if (!parsed.success) {
+          throw new McpError(ErrorCode.INVALID_PARAMS, `Invalid arguments for tool ${toolName}`, parsed.error.issues)
+        }
+        args = parsed.data
+      }
+
+      const result = await toolEntry.handler(args, context)
+      return this.prepareToolResult(toolName, toolEntry, result, context.session)
     } catch (error) {
       if (error instanceof McpError) {
         throw error
@@ -480,24 +1724,200 @@ export class McpMqttServer extends EventEmitter {
     }
   }
 
-  private handleResourcesList(request: JSONRPCRequest): JSONRPCResponse {
-    const resourcesList = Array.from(this.resources.values()).map(({ definition }) => definition)
-    return createResponse(request.id, { resources: resourcesList })
+  // Leave out fields from spec revisions the client did not negotiate
+  private toolForProtocolVersion(tool: Tool, protocolVersion: string): Tool {
+    const { title, annotations, outputSchema, ...definition } = tool
+    return {
+      ...definition,
+      ...(title !== undefined && supportsProtocolFeature(protocolVersion, 'titles') && { title }),
+      ...(annotations && supportsProtocolFeature(protocolVersion, 'toolAnnotations') && { annotations }),
+      ...(outputSchema && supportsProtocolFeature(protocolVersion, 'structuredOutput') && { outputSchema }),
+    }
   }
 
-  private async handleResourceRead(request: ReadResourceRequest): Promise<JSONRPCResponse> {
+  private prepareToolResult(
+    toolName: string,
+    toolEntry: { definition: Tool; outputSchema: z.ZodTypeAny | undefined },
+    result: Awaited<ReturnType<ToolHandler>>,
+    session: ClientSession,
+  ): Awaited<ReturnType<ToolHandler>> {
+    // Catch malformed handler returns before they go out on the wire
+    const validated = CallToolResultSchema.safeParse(result)
+    if (!validated.success) {
+      throw new McpError(ErrorCode.INTERNAL_ERROR, `Invalid result from tool ${toolName}`, validated.error.issues)
+    }
+
+    let { structuredContent } = result
+
+    // Tools that declare an output schema must return conforming structured content, except on errors
+    if (toolEntry.outputSchema && !result.isError) {
+      if (structuredContent === undefined) {
+        throw new McpError(ErrorCode.INTERNAL_ERROR, `Tool ${toolName} returned no structured content`)
+      }
+      const parsed = toolEntry.outputSchema.safeParse(structuredContent)
+      if (!parsed.success) {
+        throw new McpError(
+          ErrorCode.INTERNAL_ERROR,
+          `Invalid structured content from tool ${toolName}`,
+          parsed.error.issues,
+        )
+      }
+      structuredContent = parsed.data
+    }
+
+    const resultContent = result.content.map((block) => contentForProtocolVersion(block, session.protocolVersion))
+    if (structuredContent === undefined) {
+      return { ...result, content: resultContent }
+    }
+
+    // Mirror structured output as text for clients that only read `content`
+    const content: ContentBlock[] =
+      resultContent.length > 0 ? resultContent : [{ type: 'text', text: JSON.stringify(structuredContent) }]
+    if (!supportsProtocolFeature(session.protocolVersion, 'structuredOutput')) {
+      return { content, ...(result.isError !== undefined && { isError: result.isError }) }
+    }
+    return { ...result, content, structuredContent }
+  }
+
+  private handleResourcesList(request: JSONRPCRequest, session: ClientSession): ListResourcesResult {
+    const { role } = session
+    const resourcesList = Array.from(this.resources.values())
+      .filter(({ enabled }) => enabled)
+      .map(({ definition }) => definition)
+      .filter((resource) => !this.rbacPolicy || this.rbacPolicy.isResourceAllowed(role, resource.uri))
+    const { page, nextCursor } = paginate(resourcesList, request.params?.cursor, this.config.pageSize)
+    return { resources: page, ...(nextCursor && { nextCursor }) }
+  }
+
+  private async handleComplete(request: CompleteRequest, context: RequestContext): Promise<CompleteResult> {
+    try {
+      CompleteRequestSchema.parse(request)
+    } catch (error) {
+      throw new McpError(ErrorCode.INVALID_PARAMS, 'Invalid completion/complete request')
+    }
+
+    const { ref, argument } = request.params
+    let provider: CompletionProvider | undefined
+
+    if (ref.type === 'ref/prompt') {
+      const promptEntry = this.prompts.get(ref.name)
+      if (!promptEntry?.enabled) {
+        throw new McpError(ErrorCode.PROMPT_NOT_FOUND, `Prompt not found: ${ref.name}`)
+      }
+      provider = promptEntry.complete[argument.name]
+    } else {
+      const templateEntry = this.resourceTemplates.get(ref.uri)
+      if (!templateEntry?.enabled) {
+        throw new McpError(ErrorCode.RESOURCE_NOT_FOUND, `Resource template not found: ${ref.uri}`)
+      }
+      provider = templateEntry.complete[argument.name]
+    }
+
+    let values: string[] = []
+    if (provider) {
+      try {
+        values = await provider(argument.value, { ...context, arguments: request.params.context?.arguments ?? {} })
+      } catch (error) {
+        throw new McpError(ErrorCode.INTERNAL_ERROR, error instanceof Error ? error.message : 'Completion failed')
+      }
+    }
+
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETION_VALUES),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETION_VALUES,
+      },
+    }
+  }
+
+  private handleSetLevel(request: SetLevelRequest, session: ClientSession): Record<string, never> {
+    try {
+      SetLevelRequestSchema.parse(request)
+    } catch (error) {
+      throw new McpError(ErrorCode.INVALID_PARAMS, 'Invalid logging/setLevel request')
+    }
+
+    session.logLevel = request.params.level
+    return {}
+  }
+
+  private handleResourceSubscription(request: SubscribeRequest, session: ClientSession): Record<string, never> {
+    const { clientId } = session
+    if (!this.config.capabilities?.resources?.subscribe) {
+      throw new McpError(ErrorCode.METHOD_NOT_FOUND, `Method not found: ${request.method}`)
+    }
+
+    try {
+      SubscribeRequestSchema.parse(request)
+    } catch (error) {
+      throw new McpError(ErrorCode.INVALID_PARAMS, `Invalid ${request.method} request`)
+    }
+
+    const uri = request.params.uri
+
+    if (request.method === 'resources/subscribe') {
+      const isKnown =
+        this.resources.get(uri)?.enabled ||
+        Array.from(this.resourceTemplates.values()).some(
+          ({ template, enabled }) => enabled && template.match(uri) !== null,
+        )
+      if (!isKnown) {
+        throw new McpError(ErrorCode.RESOURCE_NOT_FOUND, `Resource not found: ${uri}`)
+      }
+
+      let subscribers = this.resourceSubscriptions.get(uri)
+      if (!subscribers) {
+        subscribers = new Set()
+        this.resourceSubscriptions.set(uri, subscribers)
+      }
+      subscribers.add(clientId)
+    } else {
+      const subscribers = this.resourceSubscriptions.get(uri)
+      subscribers?.delete(clientId)
+      if (subscribers?.size === 0) {
+        this.resourceSubscriptions.delete(uri)
+      }
+    }
+
+    return {}
+  }
+
+  private handleResourceTemplatesList(request: JSONRPCRequest, session: ClientSession): Record<string, any> {
+    const { role } = session
+    const templatesList = Array.from(this.resourceTemplates.values())
+      .filter(({ enabled }) => enabled)
+      .map(({ definition }) => definition)
+      .filter((template) => !this.rbacPolicy || this.rbacPolicy.isResourceTemplateAllowed(role, template.uriTemplate))
+    const { page, nextCursor } = paginate(templatesList, request.params?.cursor, this.config.pageSize)
+    return { resourceTemplates: page, ...(nextCursor && { nextCursor }) }
+  }
+
+  private async handleResourceRead(
+    request: ReadResourceRequest,
+    context: RequestContext,
+  ): Promise<Awaited<ReturnType<ResourceHandler>>> {
     try {
       ReadResourceRequestSchema.parse(request)
 
       const uri = request.params.uri
       const resourceEntry = this.resources.get(uri)
 
-      if (!resourceEntry) {
-        throw new McpError(ErrorCode.RESOURCE_NOT_FOUND, `Resource not found: ${uri}`)
+      if (resourceEntry?.enabled) {
+        const result = await resourceEntry.handler(context)
+        return result
+      }
+
+      // Fall back to templates, in registration order
+      for (const templateEntry of this.resourceTemplates.values()) {
+        const variables = templateEntry.enabled ? templateEntry.template.match(uri) : null
+        if (variables) {
+          const result = await templateEntry.handler(uri, variables, context)
+          return result
+        }
       }
 
-      const result = await resourceEntry.handler()
-      return createResponse(request.id, result)
+      throw new McpError(ErrorCode.RESOURCE_NOT_FOUND, `Resource not found: ${uri}`)
     } catch (error) {
       if (error instanceof McpError) {
         throw error
@@ -506,6 +1926,53 @@ export class McpMqttServer extends EventEmitter {
     }
   }
 
+  private handlePromptsList(request: JSONRPCRequest): Record<string, any> {
+    const promptsList = Array.from(this.prompts.values())
+      .filter(({ enabled }) => enabled)
+      .map(({ definition }) => definition)
+    const { page, nextCursor } = paginate(promptsList, request.params?.cursor, this.config.pageSize)
+    return { prompts: page, ...(nextCursor && { nextCursor }) }
+  }
+
+  private async handlePromptGet(request: GetPromptRequest, context: RequestContext): Promise<GetPromptResult> {
+    try {
+      GetPromptRequestSchema.parse(request)
+
+      const promptName = request.params.name
+      const promptEntry = this.prompts.get(promptName)
+
+      if (!promptEntry?.enabled) {
+        throw new McpError(ErrorCode.PROMPT_NOT_FOUND, `Prompt not found: ${promptName}`)
+      }
+
+      const args = request.params.arguments ?? {}
+      const missing = (promptEntry.definition.arguments ?? [])
+        .filter((arg) => arg.required && args[arg.name] === undefined)
+        .map((arg) => arg.name)
+      if (missing.length > 0) {
+        throw new McpError(ErrorCode.INVALID_PARAMS, `Missing required arguments: ${missing.join(', ')}`)
+      }
+
+      const result = await promptEntry.handler(args, context)
+      const validated = GetPromptResultSchema.safeParse(result)
+      if (!validated.success) {
+        throw new McpError(ErrorCode.INTERNAL_ERROR, `Invalid result from prompt ${promptName}`, validated.error.issues)
+      }
+      return {
+        ...result,
+        messages: result.messages.map((message) => ({
+          ...message,
+          content: contentForProtocolVersion(message.content, context.session.protocolVersion),
+        })),
+      }
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error
+      }
+      throw new McpError(ErrorCode.INTERNAL_ERROR, error instanceof Error ? error.message : 'Prompt retrieval failed')
+    }
+  }
+
   getTopics() {
     return {
       control: this.topics.control,
@@ -515,8 +1982,34 @@ export class McpMqttServer extends EventEmitter {
     }
   }
 
-  getConnectedClients(): string[] {
-    return Array.from(this.connectedClients)
+  getConnectedClients(): ClientSession[] {
+    return Array.from(this.sessions.values())
+  }
+
+  getClientSession(clientId: string): ClientSession | undefined {
+    return this.sessions.get(clientId)
+  }
+
+  getStats(): ServerStats {
+    const { active, queued, byKey } = this.requestLimiter.stats()
+    const clients: ServerStats['clients'] = {}
+    for (const [clientId, counts] of byKey) {
+      clients[clientId] = { activeRequests: counts.active, queuedRequests: counts.queued }
+    }
+    return {
+      activeRequests: active,
+      queuedRequests: queued,
+      clients,
+      rejectedRequests: { ...this.rejectedRequests },
+    }
+  }
+
+  /**
+   * Whether the protocol version negotiated with a client includes `feature`.
+   * Returns false for clients that are not connected.
+   */
+  supportsFeature(clientId: string, feature: ProtocolFeature): boolean {
+    return supportsProtocolFeature(this.sessions.get(clientId)?.protocolVersion, feature)
   }
 
   getMqttClient() {
@@ -0,0 +1,44 @@
+import { ErrorCode } from '../types.js'
+import { McpError } from '../shared/utils.js'
+
+// Cursors are opaque to clients; internally they encode the offset of the next page
+export function encodeCursor(offset: number): string {
+  return btoa(JSON.stringify({ offset }))
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(atob(cursor))
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(ErrorCode.INVALID_PARAMS, `Invalid cursor: ${cursor}`)
+}
+
+/**
+ * Return the page of `items` that starts at `cursor`, plus the cursor of the
+ * following page if there is one. Without a page size everything fits in one page.
+ */
+export function paginate<T>(
+  items: T[],
+  cursor: unknown,
+  pageSize: number | undefined,
+): { page: T[]; nextCursor?: string } {
+  if (cursor !== undefined && typeof cursor !== 'string') {
+    throw new McpError(ErrorCode.INVALID_PARAMS, 'Cursor must be a string')
+  }
+
+  const offset = cursor === undefined ? 0 : decodeCursor(cursor)
+  if (!pageSize) {
+    return { page: items.slice(offset) }
+  }
+
+  const end = offset + pageSize
+  return {
+    page: items.slice(offset, end),
+    ...(end < items.length && { nextCursor: encodeCursor(end) }),
+  }
+}
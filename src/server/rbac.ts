@@ -0,0 +1,69 @@
+import type { RbacRole } from '../types.js'
+import { UriTemplate } from '../shared/uri-template.js'
+
+// Methods every client may call regardless of its role
+const ALWAYS_ALLOWED_METHODS = new Set(['ping'])
+
+/**
+ * Evaluates the roles declared in `McpMqttServerConfig.rbac`.
+ * Resource entries may be exact URIs or RFC 6570 URI templates.
+ */
+export class RbacPolicy {
+  private roles = new Map<string, { role: RbacRole; resourceTemplates: UriTemplate[] }>()
+
+  constructor(roles: RbacRole[]) {
+    for (const role of roles) {
+      const resourceTemplates =
+        role.allowed_resources === 'all'
+          ? []
+          : role.allowed_resources.filter((uri) => UriTemplate.isTemplate(uri)).map((uri) => new UriTemplate(uri))
+      this.roles.set(role.name, { role, resourceTemplates })
+    }
+  }
+
+  hasRole(roleName: string): boolean {
+    return this.roles.has(roleName)
+  }
+
+  isMethodAllowed(roleName: string | undefined, method: string): boolean {
+    if (ALWAYS_ALLOWED_METHODS.has(method)) {
+      return true
+    }
+    const entry = roleName !== undefined ? this.roles.get(roleName) : undefined
+    return entry ? entry.role.allowed_methods.includes(method) : false
+  }
+
+  isToolAllowed(roleName: string | undefined, toolName: string): boolean {
+    const entry = roleName !== undefined ? this.roles.get(roleName) : undefined
+    if (!entry) {
+      return false
+    }
+    const { allowed_tools } = entry.role
+    return allowed_tools === 'all' || allowed_tools.includes(toolName)
+  }
+
+  isResourceAllowed(roleName: string | undefined, uri: string): boolean {
+    const entry = roleName !== undefined ? this.roles.get(roleName) : undefined
+    if (!entry) {
+      return false
+    }
+    const { allowed_resources } = entry.role
+    if (allowed_resources === 'all' || allowed_resources.includes(uri)) {
+      return true
+    }
+    return entry.resourceTemplates.some((template) => template.match(uri) !== null)
+  }
+
+  /**
+   * Whether a resource template may be listed: either the template itself is
+   * granted verbatim, or the role has access to all resources.
+   */
+  isResourceTemplateAllowed(roleName: string | undefined, uriTemplate: string): boolean {
+    const entry = roleName !== undefined ? this.roles.get(roleName) : undefined
+    if (!entry) {
+      return false
+    }
+    const { allowed_resources } = entry.role
+    return allowed_resources === 'all' || allowed_resources.includes(uriTemplate)
+  }
+}
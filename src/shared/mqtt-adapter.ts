@@ -17,6 +17,7 @@ export interface MqttAdapter {
   disconnect(): Promise<void>
   subscribe(topic: string, options?: { nl?: boolean }): Promise<void>
   unsubscribe(topic: string): Promise<void>
+  resubscribe(): Promise<void>
   publish(
     topic: string,
     message: string,
@@ -27,7 +28,7 @@ export interface MqttAdapter {
     },
   ): Promise<void>
   on(event: 'message', callback: (topic: string, payload: Buffer, packet?: any) => void): void
-  on(event: 'connect' | 'disconnect' | 'error', callback: (...args: any[]) => void): void
+  on(event: 'connect' | 'disconnect' | 'reconnect' | 'close' | 'error', callback: (...args: any[]) => void): void
   isConnected(): boolean
   getConnackProperties(): Record<string, any> | undefined
   getClient(): MqttClient | null
@@ -37,6 +38,7 @@ export class UniversalMqttAdapter implements MqttAdapter {
   private client: MqttClient | null = null
   private options: MqttConnectionOptions
   private connackProperties: Record<string, any> | undefined
+  private subscriptions = new Map<string, { nl?: boolean }>() // topic -> options, restored by resubscribe()
 
   constructor(options: MqttConnectionOptions) {
     this.options = options
@@ -55,6 +57,7 @@ export class UniversalMqttAdapter implements MqttAdapter {
       keepalive: this.options.keepalive ?? 60,
       connectTimeout: this.options.connectTimeout ?? 30000,
       reconnectPeriod: this.options.reconnectPeriod ?? 1000,
+      resubscribe: false, // Restored by resubscribe() so callers can order it with their own reconnect work
       protocolVersion: 5, // Force MQTT 5.0
       properties: {
         sessionExpiryInterval: 0, // As required by specification
@@ -94,6 +97,9 @@ export class UniversalMqttAdapter implements MqttAdapter {
   }
 
   async disconnect(): Promise<void> {
+    // The next connect() starts a new session and subscribes from scratch
+    this.subscriptions.clear()
+
     return new Promise((resolve) => {
       if (this.client) {
         this.client.end(true, {}, () => {
@@ -126,12 +132,18 @@ export class UniversalMqttAdapter implements MqttAdapter {
         if (error) {
           reject(error)
         } else {
+          this.subscriptions.set(topic, options ?? {})
           resolve()
         }
       })
     })
   }
 
+  // Subscribe again to every topic after the broker dropped the session (clean start on reconnect)
+  async resubscribe(): Promise<void> {
+    await Promise.all([...this.subscriptions].map(([topic, options]) => this.subscribe(topic, options)))
+  }
+
   async unsubscribe(topic: string): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.client) {
@@ -143,6 +155,7 @@ export class UniversalMqttAdapter implements MqttAdapter {
         if (error) {
           reject(error)
         } else {
+          this.subscriptions.delete(topic)
           resolve()
         }
       })
@@ -187,7 +200,7 @@ export class UniversalMqttAdapter implements MqttAdapter {
   }
 
   on(event: 'message', callback: (topic: string, payload: Buffer, packet?: any) => void): void
-  on(event: 'connect' | 'disconnect' | 'error', callback: (...args: any[]) => void): void
+  on(event: 'connect' | 'disconnect' | 'reconnect' | 'close' | 'error', callback: (...args: any[]) => void): void
   on(event: string, callback: (...args: any[]) => void): void {
     if (!this.client) {
       throw new Error('MQTT client not initialized')
@@ -0,0 +1,37 @@
+export const LATEST_PROTOCOL_VERSION = '2025-06-18'
+
+// Newest first; the first entry is what a client proposes by default
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+export type ProtocolFeature =
+  'toolAnnotations' | 'completions' | 'audioContent' | 'structuredOutput' | 'titles' | 'resourceLinks' | 'elicitation'
+
+// The first protocol revision that introduced each feature
+const FEATURE_VERSIONS: Record<ProtocolFeature, string> = {
+  toolAnnotations: '2025-03-26',
+  completions: '2025-03-26',
+  audioContent: '2025-03-26',
+  structuredOutput: '2025-06-18',
+  titles: '2025-06-18',
+  resourceLinks: '2025-06-18',
+  elicitation: '2025-06-18',
+}
+
+/**
+ * Whether a negotiated protocol version includes `feature`.
+ * Versions are ISO dates, so they order correctly as strings.
+ */
+export function supportsProtocolFeature(protocolVersion: string | undefined, feature: ProtocolFeature): boolean {
+  return protocolVersion !== undefined && protocolVersion >= FEATURE_VERSIONS[feature]
+}
+
+/**
+ * Server-side negotiation: accept the client's version when supported,
+ * otherwise answer with the newest version the server speaks.
+ */
+export function negotiateProtocolVersion(requested: string, supported: readonly string[]): string {
+  if (supported.includes(requested)) {
+    return requested
+  }
+  return [...supported].sort().reverse()[0] ?? LATEST_PROTOCOL_VERSION
+}
@@ -0,0 +1,58 @@
+// MQTT topic filter matching: `+` matches one level, a trailing `#` matches any number of levels
+
+export function isValidTopicFilter(filter: string): boolean {
+  if (filter === '') {
+    return false
+  }
+  const levels = filter.split('/')
+  return levels.every(
+    (level, i) =>
+      (level === '#' && i === levels.length - 1) || level === '+' || (!level.includes('#') && !level.includes('+')),
+  )
+}
+
+export function matchTopicFilter(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/')
+  const topicLevels = topic.split('/')
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    const level = filterLevels[i]
+    if (level === '#') {
+      return true // Also matches the parent level, so 'a/#' matches 'a'
+    }
+    if (i >= topicLevels.length || (level !== '+' && level !== topicLevels[i])) {
+      return false
+    }
+  }
+  return filterLevels.length === topicLevels.length
+}
+
+/**
+ * Whether every topic matched by `other` is also matched by `filter`,
+ * e.g. 'site/#' covers 'site/+/plc'.
+ */
+export function topicFilterCovers(filter: string, other: string): boolean {
+  const filterLevels = filter.split('/')
+  const otherLevels = other.split('/')
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    const level = filterLevels[i]
+    if (level === '#') {
+      return true
+    }
+    const otherLevel = otherLevels[i]
+    if (otherLevel === undefined || otherLevel === '#') {
+      return false
+    }
+    if (level !== '+' && level !== otherLevel) {
+      return false
+    }
+  }
+  return filterLevels.length === otherLevels.length
+}
+
+// Drop duplicates and filters covered by another one, keeping the original order
+export function dedupeTopicFilters(filters: string[]): string[] {
+  const unique = [...new Set(filters)]
+  return unique.filter((filter) => !unique.some((other) => other !== filter && topicFilterCovers(other, filter)))
+}
@@ -0,0 +1,124 @@
+// RFC 6570 URI templates, levels 1 and 2: {var}, {+var} and {#var}
+
+type Operator = '' | '+' | '#'
+
+type TemplatePart = string | { name: string; operator: Operator }
+
+const EXPRESSION_PATTERN = /\{([+#]?)([A-Za-z0-9_.%]+)\}/g
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export class UriTemplate {
+  readonly template: string
+  readonly variableNames: string[]
+  private parts: TemplatePart[]
+  private pattern: RegExp
+
+  constructor(template: string) {
+    this.template = template
+    this.parts = UriTemplate.parse(template)
+    this.variableNames = this.parts.flatMap((part) => (typeof part === 'string' ? [] : [part.name]))
+
+    if (new Set(this.variableNames).size !== this.variableNames.length) {
+      throw new Error(`Duplicate variable in URI template: ${template}`)
+    }
+
+    const source = this.parts
+      .map((part) => {
+        if (typeof part === 'string') {
+          return escapeRegExp(part)
+        }
+        switch (part.operator) {
+          case '+':
+            return '(.+?)'
+          case '#':
+            return '#(.+?)'
+          default:
+            return '([^/?#]+?)'
+        }
+      })
+      .join('')
+    this.pattern = new RegExp(`^${source}$`)
+  }
+
+  static isTemplate(value: string): boolean {
+    return new RegExp(EXPRESSION_PATTERN.source).test(value)
+  }
+
+  private static parse(template: string): TemplatePart[] {
+    const parts: TemplatePart[] = []
+    let lastIndex = 0
+
+    for (const match of template.matchAll(EXPRESSION_PATTERN)) {
+      const index = match.index ?? 0
+      if (index > lastIndex) {
+        parts.push(template.slice(lastIndex, index))
+      }
+      parts.push({ name: match[2]!, operator: match[1] as Operator })
+      lastIndex = index + match[0].length
+    }
+    if (lastIndex < template.length) {
+      parts.push(template.slice(lastIndex))
+    }
+
+    if (parts.some((part) => typeof part === 'string' && /[{}]/.test(part))) {
+      throw new Error(`Unsupported or malformed URI template expression: ${template}`)
+    }
+    return parts
+  }
+
+  /**
+   * Match a concrete URI against the template.
+   * Returns the extracted (percent-decoded) variables, or null if the URI does not match.
+   */
+  match(uri: string): Record<string, string> | null {
+    const result = this.pattern.exec(uri)
+    if (!result) {
+      return null
+    }
+
+    const variables: Record<string, string> = {}
+    let group = 1
+    for (const part of this.parts) {
+      if (typeof part === 'string') continue
+      const raw = result[group++] ?? ''
+      try {
+        variables[part.name] = part.operator === '' ? decodeURIComponent(raw) : decodeURI(raw)
+      } catch {
+        return null
+      }
+    }
+    return variables
+  }
+
+  /**
+   * Expand the template with the given variables. Undefined variables expand to an empty string.
+   */
+  expand(variables: Record<string, string | number | boolean | undefined>): string {
+    return this.parts
+      .map((part) => {
+        if (typeof part === 'string') {
+          return part
+        }
+        const value = variables[part.name]
+        if (value === undefined) {
+          return ''
+        }
+        switch (part.operator) {
+          case '+':
+            return encodeURI(String(value))
+          case '#':
+            return `#${encodeURI(String(value))}`
+          default:
+            return encodeURIComponent(String(value))
+        }
+      })
+      .join('')
+  }
+
+  toString(): string {
+    return this.template
+  }
+}
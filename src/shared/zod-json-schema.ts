@@ -0,0 +1,190 @@
+import { z } from 'zod'
+
+/**
+ * Whether `value` is a Zod schema. Checked by shape rather than `instanceof`, so schemas
+ * built with another copy of zod in the application are recognized too.
+ */
+export function isZodSchema(value: unknown): value is z.ZodTypeAny {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { safeParse?: unknown }).safeParse === 'function' &&
+    '_def' in value
+  )
+}
+
+/**
+ * Convert a Zod schema to a JSON Schema object suitable for `inputSchema` in `tools/list`.
+ * Covers the types that commonly appear in tool arguments; anything else (including recursive
+ * `z.lazy` schemas) becomes `{}`, which accepts any value.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const jsonSchema = convert(schema)
+  if (schema.description && jsonSchema.description === undefined) {
+    jsonSchema.description = schema.description
+  }
+  return jsonSchema
+}
+
+function convert(schema: z.ZodTypeAny): Record<string, any> {
+  const def = schema._def
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const result: Record<string, any> = { type: 'string' }
+      for (const check of (schema as z.ZodString)._def.checks) {
+        switch (check.kind) {
+          case 'min':
+            result.minLength = check.value
+            break
+          case 'max':
+            result.maxLength = check.value
+            break
+          case 'length':
+            result.minLength = check.value
+            result.maxLength = check.value
+            break
+          case 'regex':
+            result.pattern = check.regex.source
+            break
+          case 'email':
+          case 'uuid':
+          case 'url':
+            result.format = check.kind === 'url' ? 'uri' : check.kind
+            break
+          case 'datetime':
+            result.format = 'date-time'
+            break
+        }
+      }
+      return result
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const result: Record<string, any> = { type: 'number' }
+      for (const check of (schema as z.ZodNumber)._def.checks) {
+        switch (check.kind) {
+          case 'int':
+            result.type = 'integer'
+            break
+          case 'min':
+            result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value
+            break
+          case 'max':
+            result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value
+            break
+          case 'multipleOf':
+            result.multipleOf = check.value
+            break
+        }
+      }
+      return result
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' }
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' }
+
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' }
+
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' }
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value }
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] }
+
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric TypeScript enums carry reverse mappings; keep only the declared values
+      const values = Object.entries(def.values as Record<string, string | number>)
+        .filter(([key]) => isNaN(Number(key)))
+        .map(([, value]) => value)
+      return { enum: values }
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const result: Record<string, any> = { type: 'array', items: zodToJsonSchema(def.type) }
+      if (def.minLength) result.minItems = def.minLength.value
+      if (def.maxLength) result.maxItems = def.maxLength.value
+      if (def.exactLength) {
+        result.minItems = def.exactLength.value
+        result.maxItems = def.exactLength.value
+      }
+      return result
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodTuple:
+      return {
+        type: 'array',
+        items: (def.items as z.ZodTypeAny[]).map((item) => zodToJsonSchema(item)),
+        minItems: def.items.length,
+        maxItems: def.items.length,
+      }
+
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.ZodObject<z.ZodRawShape>).shape
+      const properties: Record<string, any> = {}
+      const required: string[] = []
+
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(value)
+        if (!value.isOptional()) {
+          required.push(key)
+        }
+      }
+
+      const result: Record<string, any> = { type: 'object', properties }
+      if (required.length > 0) {
+        result.required = required
+      }
+      if (def.unknownKeys === 'strict') {
+        result.additionalProperties = false
+      } else if (def.catchall && def.catchall._def.typeName !== z.ZodFirstPartyTypeKind.ZodNever) {
+        result.additionalProperties = zodToJsonSchema(def.catchall)
+      }
+      return result
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) }
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+      const options = Array.isArray(def.options) ? def.options : Array.from(def.options.values())
+      return { anyOf: (options as z.ZodTypeAny[]).map((option) => zodToJsonSchema(option)) }
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [zodToJsonSchema(def.left), zodToJsonSchema(def.right)] }
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType)
+
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [zodToJsonSchema(def.innerType), { type: 'null' }] }
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() }
+
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema)
+
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema(def.type)
+
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+      return zodToJsonSchema(def.innerType)
+
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in)
+
+    default:
+      return {}
+  }
+}
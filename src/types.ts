@@ -60,6 +60,7 @@ export const InitializeResponseSchema = z.object({
     protocolVersion: z.string(),
     capabilities: z.object({
       logging: z.record(z.any()).optional(),
+      completions: z.record(z.any()).optional(),
       prompts: z
         .object({
           listChanged: z.boolean().optional(),
@@ -84,11 +85,90 @@ export const InitializeResponseSchema = z.object({
   }),
 })
 
+// Content-related schemas
+export const ContentAnnotationsSchema = z.object({
+  audience: z.array(z.enum(['user', 'assistant'])).optional(),
+  priority: z.number().min(0).max(1).optional(),
+})
+
+export const TextContentSchema = z.object({
+  type: z.literal('text'),
+  text: z.string(),
+  annotations: ContentAnnotationsSchema.optional(),
+})
+
+export const ImageContentSchema = z.object({
+  type: z.literal('image'),
+  data: z.string().base64(),
+  mimeType: z.string(),
+  annotations: ContentAnnotationsSchema.optional(),
+})
+
+export const AudioContentSchema = z.object({
+  type: z.literal('audio'),
+  data: z.string().base64(),
+  mimeType: z.string(),
+  annotations: ContentAnnotationsSchema.optional(),
+})
+
+export const TextResourceContentsSchema = z.object({
+  uri: z.string(),
+  mimeType: z.string().optional(),
+  text: z.string(),
+})
+
+export const BlobResourceContentsSchema = z.object({
+  uri: z.string(),
+  mimeType: z.string().optional(),
+  blob: z.string().base64(),
+})
+
+export const EmbeddedResourceSchema = z.object({
+  type: z.literal('resource'),
+  resource: z.union([TextResourceContentsSchema, BlobResourceContentsSchema]),
+  annotations: ContentAnnotationsSchema.optional(),
+})
+
+// A pointer to a resource the client can read or subscribe to later
+export const ResourceLinkSchema = z.object({
+  type: z.literal('resource_link'),
+  uri: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+  annotations: ContentAnnotationsSchema.optional(),
+})
+
+export const ContentBlockSchema = z.discriminatedUnion('type', [
+  TextContentSchema,
+  ImageContentSchema,
+  AudioContentSchema,
+  EmbeddedResourceSchema,
+  ResourceLinkSchema,
+])
+
 // Tool-related schemas
+// Hints about tool behavior; clients must not rely on them for security decisions
+export const ToolAnnotationsSchema = z.object({
+  title: z.string().optional(),
+  readOnlyHint: z.boolean().optional(),
+  destructiveHint: z.boolean().optional(),
+  idempotentHint: z.boolean().optional(),
+  openWorldHint: z.boolean().optional(),
+})
+
 export const ToolSchema = z.object({
   name: z.string(),
+  title: z.string().optional(),
   description: z.string().optional(),
   inputSchema: z.record(z.any()),
+  outputSchema: z.record(z.any()).optional(),
+  annotations: ToolAnnotationsSchema.optional(),
+})
+
+export const ListToolsResultSchema = z.object({
+  tools: z.array(ToolSchema),
+  nextCursor: z.string().optional(),
 })
 
 export const CallToolRequestSchema = z.object({
@@ -101,20 +181,16 @@ export const CallToolRequestSchema = z.object({
   }),
 })
 
+export const CallToolResultSchema = z.object({
+  content: z.array(ContentBlockSchema),
+  structuredContent: z.record(z.any()).optional(),
+  isError: z.boolean().optional(),
+})
+
 export const CallToolResponseSchema = z.object({
   jsonrpc: z.literal('2.0'),
   id: z.union([z.string(), z.number()]),
-  result: z.object({
-    content: z.array(
-      z.object({
-        type: z.string(),
-        text: z.string().optional(),
-        data: z.string().optional(),
-        mimeType: z.string().optional(),
-      }),
-    ),
-    isError: z.boolean().optional(),
-  }),
+  result: CallToolResultSchema,
 })
 
 // Resource-related schemas
@@ -125,6 +201,18 @@ export const ResourceSchema = z.object({
   mimeType: z.string().optional(),
 })
 
+export const ResourceTemplateSchema = z.object({
+  uriTemplate: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+})
+
+export const ListResourcesResultSchema = z.object({
+  resources: z.array(ResourceSchema),
+  nextCursor: z.string().optional(),
+})
+
 export const ReadResourceRequestSchema = z.object({
   jsonrpc: z.literal('2.0'),
   id: z.union([z.string(), z.number()]),
@@ -134,6 +222,196 @@ export const ReadResourceRequestSchema = z.object({
   }),
 })
 
+export const SubscribeRequestSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  id: z.union([z.string(), z.number()]),
+  method: z.enum(['resources/subscribe', 'resources/unsubscribe']),
+  params: z.object({
+    uri: z.string(),
+  }),
+})
+
+export const ResourceUpdatedNotificationSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  method: z.literal('notifications/resources/updated'),
+  params: z.object({
+    uri: z.string(),
+  }),
+})
+
+// Prompt-related schemas
+export const PromptArgumentSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+})
+
+export const PromptSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  arguments: z.array(PromptArgumentSchema).optional(),
+})
+
+export const PromptMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: ContentBlockSchema,
+})
+
+export const GetPromptRequestSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  id: z.union([z.string(), z.number()]),
+  method: z.literal('prompts/get'),
+  params: z.object({
+    name: z.string(),
+    arguments: z.record(z.string()).optional(),
+  }),
+})
+
+export const GetPromptResultSchema = z.object({
+  description: z.string().optional(),
+  messages: z.array(PromptMessageSchema),
+})
+
+// Completion-related schemas
+export const PromptReferenceSchema = z.object({
+  type: z.literal('ref/prompt'),
+  name: z.string(),
+})
+
+export const ResourceReferenceSchema = z.object({
+  type: z.literal('ref/resource'),
+  uri: z.string(),
+})
+
+export const CompleteRequestSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  id: z.union([z.string(), z.number()]),
+  method: z.literal('completion/complete'),
+  params: z.object({
+    ref: z.discriminatedUnion('type', [PromptReferenceSchema, ResourceReferenceSchema]),
+    argument: z.object({
+      name: z.string(),
+      value: z.string(),
+    }),
+    context: z
+      .object({
+        arguments: z.record(z.string()).optional(),
+      })
+      .optional(),
+  }),
+})
+
+export const CompleteResultSchema = z.object({
+  completion: z.object({
+    values: z.array(z.string()).max(100),
+    total: z.number().int().optional(),
+    hasMore: z.boolean().optional(),
+  }),
+})
+
+// Sampling-related schemas (server-to-client requests)
+export const SamplingMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.object({
+    type: z.string(),
+    text: z.string().optional(),
+    data: z.string().optional(),
+    mimeType: z.string().optional(),
+  }),
+})
+
+export const ModelPreferencesSchema = z.object({
+  hints: z.array(z.object({ name: z.string().optional() })).optional(),
+  costPriority: z.number().min(0).max(1).optional(),
+  speedPriority: z.number().min(0).max(1).optional(),
+  intelligencePriority: z.number().min(0).max(1).optional(),
+})
+
+export const CreateMessageRequestSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  id: z.union([z.string(), z.number()]),
+  method: z.literal('sampling/createMessage'),
+  params: z.object({
+    messages: z.array(SamplingMessageSchema),
+    modelPreferences: ModelPreferencesSchema.optional(),
+    systemPrompt: z.string().optional(),
+    includeContext: z.enum(['none', 'thisServer', 'allServers']).optional(),
+    temperature: z.number().optional(),
+    maxTokens: z.number().int(),
+    stopSequences: z.array(z.string()).optional(),
+    metadata: z.record(z.any()).optional(),
+  }),
+})
+
+export const CreateMessageResultSchema = SamplingMessageSchema.extend({
+  model: z.string(),
+  stopReason: z.string().optional(),
+})
+
+// Roots-related schemas (server-to-client requests)
+export const RootSchema = z.object({
+  uri: z.string(),
+  name: z.string().optional(),
+})
+
+export const ListRootsResultSchema = z.object({
+  roots: z.array(RootSchema),
+})
+
+// Progress and cancellation schemas
+export const ProgressTokenSchema = z.union([z.string(), z.number()])
+
+export const ProgressNotificationSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  method: z.literal('notifications/progress'),
+  params: z.object({
+    progressToken: ProgressTokenSchema,
+    progress: z.number(),
+    total: z.number().optional(),
+    message: z.string().optional(),
+  }),
+})
+
+export const CancelledNotificationSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  method: z.literal('notifications/cancelled'),
+  params: z.object({
+    requestId: z.union([z.string(), z.number()]),
+    reason: z.string().optional(),
+  }),
+})
+
+// Logging-related schemas (levels follow RFC 5424 severities)
+export const LoggingLevelSchema = z.enum([
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+])
+
+export const SetLevelRequestSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  id: z.union([z.string(), z.number()]),
+  method: z.literal('logging/setLevel'),
+  params: z.object({
+    level: LoggingLevelSchema,
+  }),
+})
+
+export const LoggingMessageNotificationSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  method: z.literal('notifications/message'),
+  params: z.object({
+    level: LoggingLevelSchema,
+    logger: z.string().optional(),
+    data: z.any(),
+  }),
+})
+
 // MQTT-specific types following official MCP over MQTT specification
 export interface MqttConnectionOptions {
   host: string
@@ -160,6 +438,49 @@ export interface McpMqttIdentifiers {
   mcpClientId: string // MQTT Client ID of MCP client
 }
 
+// Role-based access control, published by servers in their presence notification
+export const RbacRoleSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  allowed_methods: z.array(z.string()),
+  allowed_tools: z.union([z.literal('all'), z.array(z.string())]),
+  allowed_resources: z.union([z.literal('all'), z.array(z.string())]),
+})
+
+export type RbacRole = z.infer<typeof RbacRoleSchema>
+
+/**
+ * Resolves the RBAC role of an MCP client from its client ID and the MQTT user
+ * properties of its initialize request. Returning undefined means "no role".
+ */
+export type RoleResolver = (
+  clientId: string,
+  userProperties: Record<string, string | string[]>,
+) => string | undefined | Promise<string | undefined>
+
+// Token bucket settings: sustained rate plus how many requests may arrive at once
+export interface RateLimit {
+  requestsPerSecond: number
+  burst?: number // Bucket size (default: requestsPerSecond, at least 1)
+}
+
+// When and how often the client sends a request again after a timeout, lost connection or overload error
+export interface RetryPolicy {
+  maxAttempts?: number // Attempts per request, including the first (default: 3)
+  initialDelayMs?: number // Wait before the first retry (default: 200)
+  maxDelayMs?: number // Upper bound for the exponential backoff (default: 5000)
+  backoffMultiplier?: number // Growth of the wait between attempts (default: 2)
+  retryableMethods?: string[] // Methods that are safe to repeat (default: DEFAULT_RETRYABLE_METHODS)
+}
+
+// Which discovered servers the client initializes on its own, and how hard it tries
+export interface AutoConnectOptions {
+  // Glob on the server name, e.g. 'factory/*/plc' (default: every server)
+  serverName?: string | ((serverName: string, serverId: string) => boolean)
+  maxConnections?: number // Initialized servers at once (default: unlimited)
+  retry?: Omit<RetryPolicy, 'retryableMethods'> // Initialization attempts and backoff
+}
+
 // Server online notification schema
 export const ServerOnlineNotificationSchema = z.object({
   jsonrpc: z.literal('2.0'),
@@ -171,15 +492,7 @@ export const ServerOnlineNotificationSchema = z.object({
       .object({
         rbac: z
           .object({
-            roles: z.array(
-              z.object({
-                name: z.string(),
-                description: z.string(),
-                allowed_methods: z.array(z.string()),
-                allowed_tools: z.union([z.literal('all'), z.array(z.string())]),
-                allowed_resources: z.union([z.literal('all'), z.array(z.string())]),
-              }),
-            ),
+            roles: z.array(RbacRoleSchema),
           })
           .optional(),
       })
@@ -217,8 +530,13 @@ export interface McpMqttServerConfig {
 
   // Optional configuration
   description?: string // Brief description for service discovery
+  pageSize?: number // Maximum entries per page of tools/resources/prompts lists (default: unpaginated)
+  protocolVersions?: string[] // MCP protocol versions the server accepts (default: all versions this SDK supports)
+  listChangedDebounceMs?: number // Window for batching list_changed notifications (default: 10)
+  requestTimeoutMs?: number // Time limit for request handlers before REQUEST_TIMEOUT (default: none)
   capabilities?: {
     logging?: Record<string, any>
+    completions?: Record<string, any>
     prompts?: {
       listChanged?: boolean
     }
@@ -231,13 +549,17 @@ export interface McpMqttServerConfig {
     }
   }
   rbac?: {
-    roles: Array<{
-      name: string
-      description: string
-      allowed_methods: string[]
-      allowed_tools: 'all' | string[]
-      allowed_resources: 'all' | string[]
-    }>
+    roles: RbacRole[]
+    defaultRole?: string // Role for clients the resolver assigns no role to
+    trustClientRole?: boolean // Accept the MCP-RBAC-ROLE user property sent by clients (default: false)
+  }
+  roleResolver?: RoleResolver // Without one, clients get rbac.defaultRole unless trustClientRole is set
+  limits?: {
+    maxConcurrentRequests?: number // Requests handled at once across all clients (default: unlimited)
+    maxConcurrentRequestsPerClient?: number // Requests handled at once per client (default: unlimited)
+    maxQueueSize?: number // Requests waiting for a free slot before QUEUE_FULL (default: 100)
+    clientRateLimit?: RateLimit // Applied to each client separately
+    toolRateLimits?: Record<string, RateLimit> // Per tool name, shared by all clients
   }
 
   // Advanced MQTT settings (optional)
@@ -266,6 +588,12 @@ export interface McpMqttClientConfig {
   version: string
 
   // Optional configuration
+  rbacRole?: string // Requested RBAC role, sent as the MCP-RBAC-ROLE user property
+  protocolVersions?: string[] // MCP protocol versions the client accepts, preferred first (default: all versions this SDK supports)
+  retry?: RetryPolicy
+  autoConnect?: boolean | AutoConnectOptions // Initialize matching servers as they are discovered (default: false)
+  // MQTT topic filters on server names to discover, e.g. 'factory/#'; combined with the broker's suggestions (default: '#')
+  serverNameFilters?: string[]
   capabilities?: {
     roots?: {
       listChanged?: boolean
@@ -283,13 +611,50 @@ export interface McpMqttClientConfig {
   properties?: Record<string, any>
 }
 
+export type ContentAnnotations = z.infer<typeof ContentAnnotationsSchema>
+export type TextContent = z.infer<typeof TextContentSchema>
+export type ImageContent = z.infer<typeof ImageContentSchema>
+export type AudioContent = z.infer<typeof AudioContentSchema>
+export type TextResourceContents = z.infer<typeof TextResourceContentsSchema>
+export type BlobResourceContents = z.infer<typeof BlobResourceContentsSchema>
+export type EmbeddedResource = z.infer<typeof EmbeddedResourceSchema>
+export type ResourceLink = z.infer<typeof ResourceLinkSchema>
+export type ContentBlock = z.infer<typeof ContentBlockSchema>
 export type Tool = z.infer<typeof ToolSchema>
+export type ToolAnnotations = z.infer<typeof ToolAnnotationsSchema>
+export type ListToolsResult = z.infer<typeof ListToolsResultSchema>
+export type ListResourcesResult = z.infer<typeof ListResourcesResultSchema>
 export type Resource = z.infer<typeof ResourceSchema>
+export type ResourceTemplate = z.infer<typeof ResourceTemplateSchema>
 export type InitializeRequest = z.infer<typeof InitializeRequestSchema>
 export type InitializeResponse = z.infer<typeof InitializeResponseSchema>
 export type CallToolRequest = z.infer<typeof CallToolRequestSchema>
+export type CallToolResult = z.infer<typeof CallToolResultSchema>
 export type CallToolResponse = z.infer<typeof CallToolResponseSchema>
 export type ReadResourceRequest = z.infer<typeof ReadResourceRequestSchema>
+export type SubscribeRequest = z.infer<typeof SubscribeRequestSchema>
+export type ResourceUpdatedNotification = z.infer<typeof ResourceUpdatedNotificationSchema>
+export type PromptArgument = z.infer<typeof PromptArgumentSchema>
+export type Prompt = z.infer<typeof PromptSchema>
+export type PromptMessage = z.infer<typeof PromptMessageSchema>
+export type GetPromptRequest = z.infer<typeof GetPromptRequestSchema>
+export type GetPromptResult = z.infer<typeof GetPromptResultSchema>
+export type PromptReference = z.infer<typeof PromptReferenceSchema>
+export type ResourceReference = z.infer<typeof ResourceReferenceSchema>
+export type CompleteRequest = z.infer<typeof CompleteRequestSchema>
+export type CompleteResult = z.infer<typeof CompleteResultSchema>
+export type SamplingMessage = z.infer<typeof SamplingMessageSchema>
+export type ModelPreferences = z.infer<typeof ModelPreferencesSchema>
+export type CreateMessageRequest = z.infer<typeof CreateMessageRequestSchema>
+export type CreateMessageResult = z.infer<typeof CreateMessageResultSchema>
+export type Root = z.infer<typeof RootSchema>
+export type ListRootsResult = z.infer<typeof ListRootsResultSchema>
+export type ProgressToken = z.infer<typeof ProgressTokenSchema>
+export type ProgressNotification = z.infer<typeof ProgressNotificationSchema>
+export type CancelledNotification = z.infer<typeof CancelledNotificationSchema>
+export type LoggingLevel = z.infer<typeof LoggingLevelSchema>
+export type SetLevelRequest = z.infer<typeof SetLevelRequestSchema>
+export type LoggingMessageNotification = z.infer<typeof LoggingMessageNotificationSchema>
 
 // Error codes following JSON-RPC 2.0 specification
 export enum ErrorCode {
@@ -302,4 +667,10 @@ export enum ErrorCode {
   INVALID_MESSAGE = -32000,
   TOOL_NOT_FOUND = -32001,
   RESOURCE_NOT_FOUND = -32002,
+  PROMPT_NOT_FOUND = -32003,
+  PERMISSION_DENIED = -32004,
+  RATE_LIMITED = -32005,
+  QUEUE_FULL = -32006,
+  REQUEST_TIMEOUT = -32007,
+  SERVER_SHUTTING_DOWN = -32008,
 }
@@ -0,0 +1,114 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker, tick } from './helpers/fake-mqtt.js'
+import { createServer } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import { McpMqttClient } from '../src/client/mcp-client.js'
+import { McpError } from '../src/shared/utils.js'
+import { ErrorCode } from '../src/types.js'
+
+describe('autoConnect', () => {
+  let servers: McpMqttServer[]
+  let client: McpMqttClient
+  let failures: string[]
+
+  async function startServer(serverId: string, options: { refuse?: boolean } = {}): Promise<McpMqttServer> {
+    const server = createServer({ serverId, serverName: 'plant/plc' })
+    if (options.refuse) {
+      server.use(async () => {
+        throw new McpError(ErrorCode.INTERNAL_ERROR, 'Not ready')
+      })
+    }
+    await server.start()
+    servers.push(server)
+    return server
+  }
+
+  beforeEach(() => {
+    broker.reset()
+    servers = []
+    failures = []
+    client = new McpMqttClient({
+      host: 'mqtt://broker',
+      name: 'test-client',
+      version: '1.0.0',
+      clientId: 'cli1',
+      autoConnect: { maxConnections: 1, retry: { maxAttempts: 2, initialDelayMs: 5 } },
+    })
+    client.on('serverInitializationFailed', (serverId: string) => failures.push(serverId))
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    for (const server of servers) {
+      await server.stop({ drainTimeoutMs: 0 })
+    }
+  })
+
+  it('should hand the slot to another server once a server fails to initialize', async () => {
+    await startServer('srv1', { refuse: true })
+    await startServer('srv2')
+
+    await client.connect()
+    await tick(100)
+
+    expect(failures).toEqual(['srv1'])
+    expect(client.getConnectedServers().map(({ serverId }) => serverId)).toEqual(['srv2'])
+  })
+
+  it('should not keep retrying servers that failed when the pool is refilled', async () => {
+    await startServer('srv1', { refuse: true })
+    await startServer('srv2', { refuse: true })
+
+    await client.connect()
+    await tick(100)
+
+    expect(failures.sort()).toEqual(['srv1', 'srv2'])
+    expect(client.getConnectedServers()).toEqual([])
+  })
+
+  it('should try a failed server again when it announces itself', async () => {
+    const refusing = await startServer('srv1', { refuse: true })
+    await client.connect()
+    await tick(100)
+    expect(failures).toEqual(['srv1'])
+
+    await refusing.stop({ drainTimeoutMs: 0 })
+    servers = []
+    const initialized = new Promise((resolve) => client.once('serverInitialized', resolve))
+    await startServer('srv1')
+    await initialized
+
+    expect(client.getConnectedServers().map(({ serverId }) => serverId)).toEqual(['srv1'])
+  })
+
+  it('should initialize each connected server once after the client reconnects', async () => {
+    const server = await startServer('srv1')
+    let initializes = 0
+    server.use(async (request, _context, next) => {
+      if (request.method === 'initialize') {
+        initializes++
+      }
+      return next()
+    })
+    const initialized: string[] = []
+    client.on('serverInitialized', ({ serverId }: { serverId: string }) => initialized.push(serverId))
+    await client.connect()
+    await tick(50)
+    expect(initializes).toBe(1)
+
+    const reconnected = new Promise((resolve) => client.once('reconnected', resolve))
+    broker.client('cli1')!.dropAndReconnect(20)
+    await reconnected
+    await tick(50)
+
+    expect(initializes).toBe(2)
+    expect(initialized).toEqual(['srv1', 'srv1'])
+    expect(client.getConnectedServers().map(({ serverId }) => serverId)).toEqual(['srv1'])
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker, tick } from './helpers/fake-mqtt.js'
+import { createServer } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import { McpMqttClient } from '../src/client/mcp-client.js'
+
+describe('broker-suggested server name filters', () => {
+  let servers: McpMqttServer[]
+  let client: McpMqttClient
+  let warn: jest.SpiedFunction<typeof console.warn>
+
+  beforeEach(async () => {
+    broker.reset()
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    servers = []
+    for (const [serverId, serverName] of [
+      ['srv1', 'plant/plc'],
+      ['srv2', 'office/printer'],
+    ] as const) {
+      const server = createServer({ serverId, serverName })
+      await server.start()
+      servers.push(server)
+    }
+    client = new McpMqttClient({ host: 'mqtt://broker', name: 'test-client', version: '1.0.0', clientId: 'cli1' })
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    for (const server of servers) {
+      await server.stop({ drainTimeoutMs: 0 })
+    }
+    jest.restoreAllMocks()
+  })
+
+  it('should only discover servers matching the suggested filters', async () => {
+    broker.connackUserProperties['MCP-SERVER-NAME-FILTERS'] = JSON.stringify(['plant/#'])
+    await client.connect()
+    await tick()
+
+    expect(client.getDiscoveredServers().map(({ serverId }) => serverId)).toEqual(['srv1'])
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  it('should warn about the rejected filters only', async () => {
+    broker.connackUserProperties['MCP-SERVER-NAME-FILTERS'] = JSON.stringify(['plant/#', 'bad/#/filter', 42])
+    await client.connect()
+    await tick()
+
+    expect(warn).toHaveBeenCalledWith('Ignoring invalid broker-suggested server name filters:', ['bad/#/filter', 42])
+    expect(client.getDiscoveredServers().map(({ serverId }) => serverId)).toEqual(['srv1'])
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { startServerAndClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { ErrorCode } from '../src/types.js'
+
+const deviceIds = Array.from({ length: 150 }, (_, i) => `pump-${i}`)
+
+describe('completion/complete', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+
+  beforeEach(async () => {
+    const started = await startServerAndClient((server) => {
+      server.resourceTemplate(
+        'device://{id}/telemetry',
+        'Telemetry',
+        async (uri) => ({ contents: [{ uri, text: '' }] }),
+        { complete: { id: (value) => deviceIds.filter((id) => id.startsWith(value)) } },
+      )
+      server.prompt('inspect', [{ name: 'site' }, { name: 'device' }], async () => ({ messages: [] }), {
+        complete: { device: (value, { arguments: args }) => [`${args.site}/${value}`] },
+      })
+    })
+    server = started.server
+    client = started.client
+  })
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should complete resource template variables', async () => {
+    const completion = await client.complete(
+      'srv1',
+      { type: 'ref/resource', uri: 'device://{id}/telemetry' },
+      { name: 'id', value: 'pump-1' },
+    )
+    expect(completion.values).toHaveLength(61)
+    expect(completion.values[0]).toBe('pump-1')
+    expect(completion.hasMore).toBe(false)
+  })
+
+  it('should cap the values at 100 and report the total', async () => {
+    const completion = await client.complete(
+      'srv1',
+      { type: 'ref/resource', uri: 'device://{id}/telemetry' },
+      { name: 'id', value: '' },
+    )
+    expect(completion).toEqual({ values: deviceIds.slice(0, 100), total: 150, hasMore: true })
+  })
+
+  it('should pass the other arguments to prompt completion providers', async () => {
+    const completion = await client.complete(
+      'srv1',
+      { type: 'ref/prompt', name: 'inspect' },
+      { name: 'device', value: 'pu' },
+      { site: 'north' },
+    )
+    expect(completion.values).toEqual(['north/pu'])
+  })
+
+  it('should answer arguments without a provider with no values', async () => {
+    const completion = await client.complete(
+      'srv1',
+      { type: 'ref/prompt', name: 'inspect' },
+      { name: 'site', value: 'n' },
+    )
+    expect(completion).toEqual({ values: [], total: 0, hasMore: false })
+  })
+
+  it('should reject unknown references', async () => {
+    await expect(
+      client.complete('srv1', { type: 'ref/prompt', name: 'missing' }, { name: 'site', value: '' }),
+    ).rejects.toMatchObject({ code: ErrorCode.PROMPT_NOT_FOUND })
+    await expect(
+      client.complete('srv1', { type: 'ref/resource', uri: 'device://{id}' }, { name: 'id', value: '' }),
+    ).rejects.toMatchObject({ code: ErrorCode.RESOURCE_NOT_FOUND })
+  })
+
+  it('should refuse providers for undeclared arguments', () => {
+    expect(() =>
+      server.prompt('other', [{ name: 'a' }], async () => ({ messages: [] }), { complete: { b: () => [] } }),
+    ).toThrow('Completion provider for unknown argument b of prompt other')
+  })
+})
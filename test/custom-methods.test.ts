@@ -0,0 +1,107 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { z } from 'zod'
+import { tick } from './helpers/fake-mqtt.js'
+import { startServerAndClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { ErrorCode } from '../src/types.js'
+
+describe('custom methods', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+
+  beforeEach(async () => {
+    const started = await startServerAndClient(
+      (server) => {
+        server.setRequestHandler('device/reboot', z.object({ id: z.string() }), async ({ id }, { clientId }) => ({
+          rebooted: id,
+          by: clientId,
+        }))
+      },
+      {
+        configureClient: (client) => {
+          client.setRequestHandler(
+            'device/confirm',
+            z.object({ question: z.string() }),
+            async ({ question }, { serverId }) => ({
+              confirmed: question.startsWith('Reboot'),
+              serverId,
+            }),
+          )
+        },
+      },
+    )
+    server = started.server
+    client = started.client
+  })
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should call server methods from the client', async () => {
+    const result = await client.request(
+      'srv1',
+      'device/reboot',
+      { id: 'plc-7' },
+      z.object({ rebooted: z.string(), by: z.string() }),
+    )
+    expect(result).toEqual({ rebooted: 'plc-7', by: 'cli1' })
+
+    await expect(
+      client.request('srv1', 'device/reboot', { id: 7 }, z.object({ rebooted: z.string() })),
+    ).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS })
+  })
+
+  it('should call client methods from the server', async () => {
+    const result = await server.request(
+      'cli1',
+      'device/confirm',
+      { question: 'Reboot plc-7?' },
+      z.object({ confirmed: z.boolean() }),
+    )
+    expect(result).toEqual({ confirmed: true })
+
+    expect(await server.request('cli1', 'device/confirm', { question: 'Stop?' })).toEqual({
+      confirmed: false,
+      serverId: 'srv1',
+    })
+  })
+
+  it('should reject results that do not match the schema', async () => {
+    await expect(
+      server.request('cli1', 'device/confirm', { question: 'Reboot?' }, z.object({ confirmed: z.string() })),
+    ).rejects.toMatchObject({ code: ErrorCode.INVALID_MESSAGE })
+  })
+
+  it('should surface client errors and time out', async () => {
+    await expect(server.request('cli1', 'device/unknown')).rejects.toMatchObject({ code: ErrorCode.METHOD_NOT_FOUND })
+
+    client.setRequestHandler('device/slow', () => new Promise(() => {}))
+    await expect(server.request('cli1', 'device/slow', {}, undefined, { timeout: 50 })).rejects.toThrow(
+      'Request timeout: device/slow (50ms)',
+    )
+  })
+
+  it('should deliver custom notifications to the client', async () => {
+    const alarms: unknown[] = []
+    client.setNotificationHandler('notifications/alarm', (params, { serverId }) => {
+      alarms.push({ params, serverId })
+    })
+
+    await server.notify('cli1', 'notifications/alarm', { device: 'plc-7' })
+    await tick()
+    expect(alarms).toEqual([{ params: { device: 'plc-7' }, serverId: 'srv1' }])
+  })
+
+  it('should refuse clients that have not initialized', async () => {
+    await expect(server.request('cli2', 'device/confirm')).rejects.toThrow('Client not connected: cli2')
+    await expect(server.notify('cli2', 'notifications/alarm')).rejects.toThrow('Client not connected: cli2')
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect } from '@jest/globals'
+import { globToRegExp, matchGlob } from '../src/client/glob.js'
+
+describe('matchGlob', () => {
+  it('should match names literally without wildcards', () => {
+    expect(matchGlob('factory/line-1/plc', 'factory/line-1/plc')).toBe(true)
+    expect(matchGlob('factory/line-1/plc', 'factory/line-1/plc-2')).toBe(false)
+  })
+
+  it('should keep * within a single segment', () => {
+    expect(matchGlob('factory/*/plc', 'factory/line-1/plc')).toBe(true)
+    expect(matchGlob('factory/*/plc', 'factory/a/b/plc')).toBe(false)
+    expect(matchGlob('factory/plc-*', 'factory/plc-7')).toBe(true)
+  })
+
+  it('should let ** span segments', () => {
+    expect(matchGlob('factory/**', 'factory/a/b/plc')).toBe(true)
+    expect(matchGlob('**/plc', 'factory/line-1/plc')).toBe(true)
+    expect(matchGlob('factory/**', 'office/printer')).toBe(false)
+  })
+
+  it('should match ? against one character', () => {
+    expect(matchGlob('plc-?', 'plc-7')).toBe(true)
+    expect(matchGlob('plc-?', 'plc-17')).toBe(false)
+    expect(matchGlob('a?b', 'a/b')).toBe(false)
+  })
+
+  it('should escape regular expression characters', () => {
+    expect(matchGlob('app.v1/(beta)', 'app.v1/(beta)')).toBe(true)
+    expect(matchGlob('app.v1', 'appxv1')).toBe(false)
+    expect(globToRegExp('a+b').test('a+b')).toBe(true)
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * In-memory stand-in for the `mqtt` package, enough to run servers and clients against
+ * each other in tests. Install it with:
+ *
+ *   jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt'))
+ */
+import { EventEmitter } from 'events'
+
+function matches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/')
+  const topicLevels = topic.split('/')
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') {
+      return true
+    }
+    if (i >= topicLevels.length || (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i])) {
+      return false
+    }
+  }
+  return filterLevels.length === topicLevels.length
+}
+
+export class FakeBroker {
+  clients = new Set<FakeClient>()
+  retained = new Map<string, { payload: Buffer; properties: any }>()
+  connackUserProperties: Record<string, string> = {}
+  published: Array<{ from: string; topic: string; payload: string }> = []
+
+  route(from: FakeClient | null, topic: string, payload: Buffer, options: any): void {
+    this.published.push({ from: from?.clientId ?? 'broker', topic, payload: payload.toString() })
+    if (options?.retain) {
+      if (payload.length === 0) {
+        this.retained.delete(topic)
+      } else {
+        this.retained.set(topic, { payload, properties: options.properties })
+      }
+    }
+
+    for (const client of this.clients) {
+      if (!client.connected) {
+        continue
+      }
+      for (const [filter, subscribeOptions] of client.subscriptions) {
+        if (subscribeOptions?.nl && client === from) {
+          continue
+        }
+        if (matches(filter, topic)) {
+          const packet = { topic, payload, properties: options?.properties ?? {} }
+          setImmediate(() => client.emit('message', topic, payload, packet))
+          break
+        }
+      }
+    }
+  }
+
+  client(clientId: string): FakeClient | undefined {
+    return [...this.clients].find((client) => client.clientId === clientId)
+  }
+
+  reset(): void {
+    this.clients.clear()
+    this.retained.clear()
+    this.published = []
+    this.connackUserProperties = {}
+  }
+}
+
+export const broker = new FakeBroker()
+
+export class FakeClient extends EventEmitter {
+  connected = false
+  subscriptions = new Map<string, any>()
+  clientId: string
+
+  constructor(private options: any) {
+    super()
+    this.clientId = options.clientId
+    broker.clients.add(this)
+    setImmediate(() => this.acceptConnection())
+  }
+
+  subscribe(topic: string, options: any, callback?: (error: Error | null) => void): void {
+    this.subscriptions.set(topic, options)
+    setImmediate(() => {
+      callback?.(null)
+      for (const [retainedTopic, { payload, properties }] of broker.retained) {
+        if (matches(topic, retainedTopic)) {
+          this.emit('message', retainedTopic, payload, { topic: retainedTopic, payload, properties, retain: true })
+        }
+      }
+    })
+  }
+
+  unsubscribe(topic: string, callback?: (error: Error | null) => void): void {
+    this.subscriptions.delete(topic)
+    setImmediate(() => callback?.(null))
+  }
+
+  publish(topic: string, message: string, options: any, callback?: (error?: Error | null) => void): void {
+    if (!this.connected) {
+      setImmediate(() => callback?.(new Error('Client is not connected')))
+      return
+    }
+    broker.route(this, topic, Buffer.from(message), options)
+    setImmediate(() => callback?.(null))
+  }
+
+  end(_force: boolean, _options: any, callback?: () => void): void {
+    this.connected = false
+    broker.clients.delete(this)
+    setImmediate(() => callback?.())
+  }
+
+  // Lose the connection like a network failure: the will is published, then mqtt.js reconnects
+  dropAndReconnect(delayMs = 5): void {
+    this.connected = false
+    this.subscriptions.clear()
+    const { will } = this.options
+    if (will) {
+      broker.route(null, will.topic, Buffer.from(will.payload), will)
+    }
+    this.emit('close')
+    this.emit('offline')
+    setTimeout(() => {
+      this.emit('reconnect')
+      this.acceptConnection()
+    }, delayMs)
+  }
+
+  private acceptConnection(): void {
+    this.connected = true
+    this.emit('connect', { properties: { userProperties: { ...broker.connackUserProperties } } })
+  }
+}
+
+export function connect(_host: string, options: any): FakeClient {
+  return new FakeClient(options)
+}
+
+export default { connect }
+
+export const tick = (ms = 20) => new Promise((resolve) => setTimeout(resolve, ms))
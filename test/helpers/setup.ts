@@ -0,0 +1,80 @@
+/**
+ * One server and one client talking through the fake broker, for end-to-end tests.
+ * Test files still mock `mqtt` and `nanoid` themselves, since jest.mock only applies
+ * to the file it is written in:
+ *
+ *   jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+ */
+import { broker } from './fake-mqtt.js'
+import { McpMqttServer } from '../../src/server/mcp-server.js'
+import { McpMqttClient } from '../../src/client/mcp-client.js'
+import type { McpMqttClientConfig, McpMqttServerConfig } from '../../src/types.js'
+
+export interface ServerAndClient {
+  server: McpMqttServer
+  client: McpMqttClient
+}
+
+export interface ServerAndClientOptions {
+  server?: Partial<McpMqttServerConfig>
+  client?: Partial<McpMqttClientConfig>
+  configureClient?: (client: McpMqttClient) => void // Runs before the client connects
+  initialize?: boolean // Initialize the server once it is discovered (default: true)
+}
+
+// A server with ID srv1; `config` overrides the defaults
+export function createServer(config: Partial<McpMqttServerConfig> = {}): McpMqttServer {
+  return new McpMqttServer({
+    host: 'mqtt://broker',
+    serverId: 'srv1',
+    serverName: 'demo/test',
+    name: 'Test',
+    version: '1.0.0',
+    ...config,
+  })
+}
+
+// Connect a client with ID cli1 and wait until it discovers a server
+export async function connectClient(
+  config: Partial<McpMqttClientConfig> = {},
+  options: Pick<ServerAndClientOptions, 'configureClient' | 'initialize'> = {},
+): Promise<McpMqttClient> {
+  const client = new McpMqttClient({
+    host: 'mqtt://broker',
+    name: 'test-client',
+    version: '1.0.0',
+    clientId: 'cli1',
+    ...config,
+  })
+  options.configureClient?.(client)
+
+  const discovered = new Promise((resolve) => client.once('serverDiscovered', resolve))
+  await client.connect()
+  await discovered
+  if (options.initialize ?? true) {
+    await client.initializeServer('srv1')
+  }
+  return client
+}
+
+/**
+ * Reset the broker, start a server after `configure` registered its tools and handlers,
+ * then connect a client to it. Pair with `stopServerAndClient` in afterEach.
+ */
+export async function startServerAndClient(
+  configure?: (server: McpMqttServer) => void,
+  options: ServerAndClientOptions = {},
+): Promise<ServerAndClient> {
+  broker.reset()
+  const server = createServer(options.server)
+  configure?.(server)
+  await server.start()
+
+  const client = await connectClient(options.client, options)
+  return { server, client }
+}
+
+export async function stopServerAndClient({ server, client }: ServerAndClient): Promise<void> {
+  await client.disconnect()
+  await server.stop({ drainTimeoutMs: 0 })
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock nanoid before importing utils
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn(() => 'test-id-123'),
+}))
+
+import { TokenBucket, ConcurrencyLimiter, createTokenBucket } from '../src/server/limits.js'
+import { McpError } from '../src/shared/utils.js'
+import { ErrorCode } from '../src/types.js'
+
+describe('TokenBucket', () => {
+  it('should allow a burst up to capacity and then report the wait', () => {
+    let now = 0
+    const bucket = new TokenBucket(2, 2, () => now)
+
+    expect(bucket.take()).toBe(0)
+    expect(bucket.take()).toBe(0)
+    expect(bucket.take()).toBe(500)
+
+    now = 500
+    expect(bucket.take()).toBe(0)
+    expect(bucket.take()).toBe(500)
+  })
+
+  it('should not refill beyond capacity', () => {
+    let now = 0
+    const bucket = new TokenBucket(10, 1, () => now)
+
+    now = 10_000
+    expect(bucket.take()).toBe(0)
+    expect(bucket.take()).toBeGreaterThan(0)
+  })
+
+  it('should default burst to the per-second rate', () => {
+    const bucket = createTokenBucket({ requestsPerSecond: 3 })
+    expect([bucket.take(), bucket.take(), bucket.take()]).toEqual([0, 0, 0])
+    expect(bucket.take()).toBeGreaterThan(0)
+  })
+})
+
+describe('ConcurrencyLimiter', () => {
+  it('should queue requests over the per-key limit and start them in order', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrentPerKey: 1 })
+    const started: string[] = []
+
+    const releaseFirst = await limiter.acquire('a')
+    const second = limiter.acquire('a').then((release) => {
+      started.push('second')
+      return release
+    })
+    const other = await limiter.acquire('b')
+
+    expect(limiter.stats()).toMatchObject({ active: 2, queued: 1 })
+    expect(limiter.stats().byKey.get('a')).toEqual({ active: 1, queued: 1 })
+
+    releaseFirst()
+    const releaseSecond = await second
+    expect(started).toEqual(['second'])
+
+    releaseSecond()
+    other()
+    expect(limiter.stats()).toMatchObject({ active: 0, queued: 0 })
+  })
+
+  it('should let other keys pass a key that is still at its cap', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 2, maxConcurrentPerKey: 1 })
+
+    const releaseA = await limiter.acquire('a')
+    const releaseB = await limiter.acquire('b')
+    const queuedA = limiter.acquire('a')
+    const queuedC = limiter.acquire('c')
+
+    releaseB()
+    const releaseC = await queuedC
+    expect(limiter.stats().byKey.get('a')).toEqual({ active: 1, queued: 1 })
+
+    releaseA()
+    ;(await queuedA)()
+    releaseC()
+  })
+
+  it('should reject with QUEUE_FULL when the queue is full', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueueSize: 1 })
+
+    await limiter.acquire('a')
+    void limiter.acquire('a')
+
+    const rejected = limiter.acquire('a')
+    await expect(rejected).rejects.toBeInstanceOf(McpError)
+    await expect(rejected).rejects.toMatchObject({ code: ErrorCode.QUEUE_FULL })
+  })
+
+  it('should drop queued requests when aborted', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 })
+    const controller = new AbortController()
+
+    const release = await limiter.acquire('a')
+    const queued = limiter.acquire('a', controller.signal)
+    controller.abort()
+
+    await expect(queued).rejects.toThrow('Request cancelled while queued')
+    expect(limiter.stats().queued).toBe(0)
+
+    release()
+    expect(limiter.stats().active).toBe(0)
+  })
+
+  it('should ignore repeated release calls', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 })
+
+    const release = await limiter.acquire('a')
+    release()
+    release()
+
+    expect(limiter.stats().active).toBe(0)
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker } from './helpers/fake-mqtt.js'
+import { createServer, connectClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer, Middleware } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { ErrorCode } from '../src/types.js'
+import { McpError } from '../src/shared/utils.js'
+
+describe('middleware pipeline', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+  let received: Record<string, unknown>[]
+
+  async function connect(): Promise<void> {
+    await server.start()
+    client = await connectClient({}, { initialize: false })
+  }
+
+  beforeEach(() => {
+    broker.reset()
+    received = []
+    server = createServer()
+    server.tool('echo', 'Echo the arguments', { type: 'object' }, async (params) => {
+      received.push(params)
+      return { content: [{ type: 'text', text: JSON.stringify(params) }] }
+    })
+  })
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should run middleware in registration order around the handler', async () => {
+    const order: string[] = []
+    const trace =
+      (name: string): Middleware =>
+      async (request, _context, next) => {
+        order.push(`${name}:${request.method}`)
+        const result = await next()
+        order.push(`${name}:done`)
+        return result
+      }
+    server.use(trace('outer'))
+    server.use(trace('inner'))
+    await connect()
+    await client.initializeServer('srv1')
+    order.length = 0
+
+    await client.callTool('srv1', 'echo', {})
+    expect(order).toEqual(['outer:tools/call', 'inner:tools/call', 'inner:done', 'outer:done'])
+  })
+
+  it('should pass a modified request down the pipeline', async () => {
+    server.use(async (request, _context, next) => {
+      if (request.method !== 'tools/call') {
+        return next()
+      }
+      const args = { ...request.params?.arguments }
+      delete args.password
+      return next({ ...request, params: { ...request.params, arguments: args } })
+    })
+    await connect()
+    await client.initializeServer('srv1')
+
+    await client.callTool('srv1', 'echo', { user: 'ada', password: 'secret' })
+    expect(received).toEqual([{ user: 'ada' }])
+  })
+
+  it('should let middleware short-circuit with a result or an error', async () => {
+    server.use(async (request, context, next) => {
+      if (request.method === 'tools/list') {
+        return { tools: [] }
+      }
+      if (request.method === 'tools/call' && context.session?.clientInfo.name === 'test-client') {
+        throw new McpError(ErrorCode.PERMISSION_DENIED, 'Blocked by policy')
+      }
+      return next()
+    })
+    await connect()
+    await client.initializeServer('srv1')
+
+    expect(await client.listTools('srv1')).toEqual([])
+    await expect(client.callTool('srv1', 'echo', {})).rejects.toMatchObject({
+      code: ErrorCode.PERMISSION_DENIED,
+      message: 'Blocked by policy',
+    })
+    expect(received).toEqual([])
+  })
+
+  it('should let middleware change responses', async () => {
+    server.use(async (request, _context, next) => {
+      const result = await next()
+      return request.method === 'tools/call' ? { ...result, content: [{ type: 'text', text: 'redacted' }] } : result
+    })
+    await connect()
+    await client.initializeServer('srv1')
+
+    expect((await client.callTool('srv1', 'echo', { secret: 1 })).content).toEqual([{ type: 'text', text: 'redacted' }])
+  })
+
+  it('should run for initialize on the control topic before a session exists', async () => {
+    const contexts: unknown[] = []
+    server.use(async (request, context, next) => {
+      if (request.method === 'initialize') {
+        contexts.push({ ...context })
+        if (context.userProperties['MCP-MQTT-CLIENT-ID'] === 'cli1') {
+          throw new McpError(ErrorCode.PERMISSION_DENIED, 'Client not allowed')
+        }
+      }
+      return next()
+    })
+    await connect()
+
+    await expect(client.initializeServer('srv1')).rejects.toThrow('Client not allowed')
+    expect(contexts).toEqual([expect.objectContaining({ clientId: 'cli1', session: undefined })])
+    expect(server.getClientSession('cli1')).toBeUndefined()
+  })
+
+  it('should reject a second call to next()', async () => {
+    let secondCall: Promise<unknown> | undefined
+    server.use(async (request, _context, next) => {
+      const result = await next()
+      if (request.method === 'tools/call') {
+        secondCall = next().catch((error: unknown) => error)
+      }
+      return result
+    })
+    await connect()
+    await client.initializeServer('srv1')
+
+    await client.callTool('srv1', 'echo', {})
+    expect(await secondCall).toEqual(new Error('next() called multiple times'))
+    expect(received).toHaveLength(1)
+  })
+})
+
+describe('use', () => {
+  it('should refuse middleware that is not a function', () => {
+    const server = createServer()
+    expect(() => server.use('audit' as unknown as Middleware)).toThrow('Middleware must be a function')
+  })
+})
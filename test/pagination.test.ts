@@ -0,0 +1,50 @@
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock nanoid before importing utils
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn(() => 'test-id-123'),
+}))
+
+import { paginate, encodeCursor, decodeCursor } from '../src/server/pagination.js'
+import { McpError } from '../src/shared/utils.js'
+import { ErrorCode } from '../src/types.js'
+
+const items = ['a', 'b', 'c', 'd', 'e']
+
+describe('paginate', () => {
+  it('should return everything without a page size', () => {
+    expect(paginate(items, undefined, undefined)).toEqual({ page: items })
+  })
+
+  it('should walk pages until the last one', () => {
+    const first = paginate(items, undefined, 2)
+    expect(first.page).toEqual(['a', 'b'])
+    expect(first.nextCursor).toBeDefined()
+
+    const second = paginate(items, first.nextCursor, 2)
+    expect(second.page).toEqual(['c', 'd'])
+
+    const last = paginate(items, second.nextCursor, 2)
+    expect(last).toEqual({ page: ['e'] })
+  })
+
+  it('should omit nextCursor when the page ends exactly at the last item', () => {
+    expect(paginate(['a', 'b'], undefined, 2)).toEqual({ page: ['a', 'b'] })
+  })
+
+  it('should reject malformed cursors with INVALID_PARAMS', () => {
+    for (const cursor of ['not-base64!', encodeCursor(-1), btoa('{"offset":"x"}'), 42]) {
+      try {
+        paginate(items, cursor, 2)
+        throw new Error('expected paginate to throw')
+      } catch (error) {
+        expect(error).toBeInstanceOf(McpError)
+        expect((error as McpError).code).toBe(ErrorCode.INVALID_PARAMS)
+      }
+    }
+  })
+
+  it('should round-trip offsets through cursors', () => {
+    expect(decodeCursor(encodeCursor(7))).toBe(7)
+  })
+})
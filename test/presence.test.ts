@@ -0,0 +1,132 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker, tick } from './helpers/fake-mqtt.js'
+import { createServer, connectClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { TransientError } from '../src/client/retry.js'
+import type { ServerInfo } from '../src/types.js'
+
+describe('server presence and reconnects', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+  let events: string[]
+
+  function createServerWithTools(): McpMqttServer {
+    const created = createServer({ capabilities: { resources: { subscribe: true } } })
+    created.tool('ping-tool', 'Answer pong', { type: 'object' }, async () => ({
+      content: [{ type: 'text', text: 'pong' }],
+    }))
+    created.tool('hang', 'Wait until aborted', { type: 'object' }, async (_args, { signal }) => {
+      await new Promise((resolve) => signal.addEventListener('abort', resolve))
+      return { content: [] }
+    })
+    created.resource('config://app', 'App config', async () => ({ contents: [] }))
+    return created
+  }
+
+  function nextInitialized(): Promise<ServerInfo> {
+    return new Promise((resolve) => client.once('serverInitialized', resolve))
+  }
+
+  beforeEach(async () => {
+    broker.reset()
+    events = []
+    server = createServerWithTools()
+    await server.start()
+
+    client = await connectClient(
+      {},
+      {
+        initialize: false,
+        configureClient: (client) => {
+          client.on('serverDisconnected', (serverId: string) => events.push(`disconnected:${serverId}`))
+          client.on('serverDiscovered', (info: ServerInfo) => events.push(`discovered:${info.serverId}`))
+        },
+      },
+    )
+  })
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should restore an initialized server after a broker blip', async () => {
+    await client.initializeServer('srv1')
+    const updates: string[] = []
+    await client.subscribeResource('srv1', 'config://app', (uri) => updates.push(uri))
+    const initialized = nextInitialized()
+
+    broker.client('srv1')!.dropAndReconnect(20)
+    await tick(5)
+    expect(client.getConnectedServers()).toEqual([])
+    await initialized
+    await tick()
+
+    expect(events).toEqual(['discovered:srv1', 'disconnected:srv1', 'discovered:srv1'])
+    expect((await client.callTool('srv1', 'ping-tool', {})).content).toEqual([{ type: 'text', text: 'pong' }])
+    await server.notifyResourceUpdated('config://app')
+    await tick()
+    expect(updates).toEqual(['config://app'])
+  })
+
+  it('should report a graceful stop once and not restore the server when it restarts', async () => {
+    await client.initializeServer('srv1')
+    await server.stop({ drainTimeoutMs: 0 })
+    await tick()
+    expect(client.getDiscoveredServers()).toEqual([])
+    expect(events).toEqual(['discovered:srv1', 'disconnected:srv1'])
+
+    const rediscovered = new Promise((resolve) => client.once('serverDiscovered', resolve))
+    server = createServerWithTools()
+    await server.start()
+    await rediscovered
+    await tick()
+
+    expect(events).toEqual(['discovered:srv1', 'disconnected:srv1', 'discovered:srv1'])
+    expect(client.getConnectedServers()).toEqual([])
+    expect(server.getClientSession('cli1')).toBeUndefined()
+  })
+
+  it('should fail requests to a server as soon as its presence is cleared', async () => {
+    await client.initializeServer('srv1')
+    const call = client.callTool('srv1', 'hang', {}).catch((error: Error) => error)
+    await tick()
+    expect(client.getPendingRequestCount('srv1')).toBe(1)
+
+    broker.client('srv1')!.dropAndReconnect(50)
+    const error = await call
+
+    expect(error).toBeInstanceOf(TransientError)
+    expect((error as Error).message).toBe('Server disconnected: srv1')
+    expect(client.getPendingRequestCount('srv1')).toBe(0)
+    await tick(100)
+  })
+
+  it('should only rediscover servers that were never initialized', async () => {
+    broker.client('srv1')!.dropAndReconnect(20)
+    await tick(50)
+
+    expect(events).toEqual(['discovered:srv1', 'disconnected:srv1', 'discovered:srv1'])
+    expect(client.getConnectedServers()).toEqual([])
+    expect(server.getClientSession('cli1')).toBeUndefined()
+  })
+
+  it('should initialize servers again after the client reconnects', async () => {
+    await client.initializeServer('srv1')
+    const firstSession = server.getClientSession('cli1')
+    const reconnected = new Promise((resolve) => client.once('reconnected', resolve))
+
+    broker.client('cli1')!.dropAndReconnect(20)
+    await reconnected
+
+    expect(server.getClientSession('cli1')).not.toBe(firstSession)
+    expect(server.getClientSession('cli1')?.initialized).toBe(true)
+    expect((await client.callTool('srv1', 'ping-tool', {})).content).toEqual([{ type: 'text', text: 'pong' }])
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker, tick } from './helpers/fake-mqtt.js'
+import { startServerAndClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+
+describe('progress and cancellation', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+  let handlerSignal: AbortSignal | undefined
+  let finishHandler: (() => void) | undefined
+
+  beforeEach(async () => {
+    handlerSignal = undefined
+    finishHandler = undefined
+    const started = await startServerAndClient((server) => {
+      server.tool('export', 'Export data', { type: 'object' }, async (_params, context) => {
+        handlerSignal = context.signal
+        await context.reportProgress(1, 3, 'Reading')
+        await context.reportProgress(2, 3)
+        await new Promise<void>((resolve) => {
+          finishHandler = resolve
+        })
+        return { content: [{ type: 'text', text: 'exported' }] }
+      })
+    })
+    server = started.server
+    client = started.client
+  })
+
+  afterEach(async () => {
+    finishHandler?.()
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should report progress to the caller', async () => {
+    const progress: unknown[] = []
+    const call = client.callTool('srv1', 'export', {}, { onProgress: (update) => progress.push(update) })
+    await tick()
+    finishHandler!()
+
+    expect((await call).content).toEqual([{ type: 'text', text: 'exported' }])
+    expect(progress).toEqual([
+      { progress: 1, total: 3, message: 'Reading' },
+      { progress: 2, total: 3 },
+    ])
+  })
+
+  it('should not send progress without a progress token', async () => {
+    const call = client.callTool('srv1', 'export', {})
+    await tick()
+    finishHandler!()
+    await call
+
+    expect(broker.published.filter(({ payload }) => payload.includes('notifications/progress'))).toEqual([])
+  })
+
+  it('should abort the handler and skip the response when the caller cancels', async () => {
+    const controller = new AbortController()
+    const call = client.callTool('srv1', 'export', {}, { signal: controller.signal })
+    await tick()
+    expect(handlerSignal?.aborted).toBe(false)
+
+    controller.abort('No longer needed')
+    await expect(call).rejects.toThrow('Request cancelled: tools/call')
+    await tick()
+
+    expect(handlerSignal?.aborted).toBe(true)
+    expect(handlerSignal?.reason).toBe('No longer needed')
+    const responses = broker.published.filter(
+      ({ from, payload }) => from === 'srv1' && payload.includes('"result"') && payload.includes('exported'),
+    )
+    expect(responses).toEqual([])
+  })
+
+  it('should reject right away when the signal is already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(client.callTool('srv1', 'export', {}, { signal: controller.signal })).rejects.toThrow('cancelled')
+    expect(handlerSignal).toBeUndefined()
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker } from './helpers/fake-mqtt.js'
+import { createServer, connectClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import type { ContentBlock } from '../src/types.js'
+
+const content: ContentBlock[] = [
+  { type: 'text', text: 'Recorded' },
+  { type: 'audio', data: 'UklGRg==', mimeType: 'audio/wav' },
+  { type: 'resource_link', uri: 'file:///logs/today.log', name: 'today.log' },
+]
+
+describe('protocol version gating', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+
+  async function connect(protocolVersions: string[]): Promise<void> {
+    client = await connectClient({ protocolVersions })
+  }
+
+  beforeEach(async () => {
+    broker.reset()
+    server = createServer()
+    server.tool('record', 'Record a clip', { type: 'object' }, async () => ({ content }), { title: 'Record clip' })
+    server.prompt('review', [], async () => ({
+      messages: [
+        { role: 'user', content: { type: 'resource_link', uri: 'file:///logs/today.log', name: 'today.log' } },
+      ],
+    }))
+    await server.start()
+  })
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should send newer features to clients that negotiated them', async () => {
+    await connect(['2025-06-18'])
+
+    expect(client.getConnectedServers()[0]?.capabilities?.completions).toEqual({})
+    expect((await client.listTools('srv1'))[0]?.title).toBe('Record clip')
+    expect((await client.callTool('srv1', 'record', {})).content).toEqual(content)
+  })
+
+  it('should downgrade content and drop newer fields for 2024-11-05 clients', async () => {
+    await connect(['2024-11-05'])
+
+    expect(client.getConnectedServers()[0]?.capabilities).not.toHaveProperty('completions')
+    expect((await client.listTools('srv1'))[0]).not.toHaveProperty('title')
+    expect((await client.callTool('srv1', 'record', {})).content).toEqual([
+      { type: 'text', text: 'Recorded' },
+      { type: 'text', text: '[audio/wav audio omitted]' },
+      { type: 'text', text: 'today.log: file:///logs/today.log' },
+    ])
+    expect((await client.getPrompt('srv1', 'review')).messages[0]?.content).toEqual({
+      type: 'text',
+      text: 'today.log: file:///logs/today.log',
+    })
+  })
+
+  it('should keep audio but not resource links for 2025-03-26 clients', async () => {
+    await connect(['2025-03-26'])
+
+    expect((await client.callTool('srv1', 'record', {})).content).toEqual([
+      content[0],
+      content[1],
+      { type: 'text', text: 'today.log: file:///logs/today.log' },
+    ])
+  })
+})
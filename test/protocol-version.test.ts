@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  negotiateProtocolVersion,
+  supportsProtocolFeature,
+} from '../src/shared/protocol-version.js'
+
+describe('protocol versions', () => {
+  it('should list the latest version first', () => {
+    expect(SUPPORTED_PROTOCOL_VERSIONS[0]).toBe(LATEST_PROTOCOL_VERSION)
+    expect(SUPPORTED_PROTOCOL_VERSIONS).toContain('2024-11-05')
+  })
+
+  describe('negotiateProtocolVersion', () => {
+    it('should accept a supported version requested by the client', () => {
+      expect(negotiateProtocolVersion('2024-11-05', SUPPORTED_PROTOCOL_VERSIONS)).toBe('2024-11-05')
+    })
+
+    it('should offer the newest supported version otherwise', () => {
+      expect(negotiateProtocolVersion('2099-01-01', SUPPORTED_PROTOCOL_VERSIONS)).toBe(LATEST_PROTOCOL_VERSION)
+      expect(negotiateProtocolVersion('2025-06-18', ['2024-11-05', '2025-03-26'])).toBe('2025-03-26')
+    })
+  })
+
+  describe('supportsProtocolFeature', () => {
+    it('should gate features by the version that introduced them', () => {
+      expect(supportsProtocolFeature('2024-11-05', 'toolAnnotations')).toBe(false)
+      expect(supportsProtocolFeature('2025-03-26', 'toolAnnotations')).toBe(true)
+      expect(supportsProtocolFeature('2025-03-26', 'structuredOutput')).toBe(false)
+      expect(supportsProtocolFeature('2025-06-18', 'structuredOutput')).toBe(true)
+      expect(supportsProtocolFeature('2025-06-18', 'elicitation')).toBe(true)
+    })
+
+    it('should gate content types, titles and completions', () => {
+      expect(supportsProtocolFeature('2024-11-05', 'completions')).toBe(false)
+      expect(supportsProtocolFeature('2024-11-05', 'audioContent')).toBe(false)
+      expect(supportsProtocolFeature('2025-03-26', 'completions')).toBe(true)
+      expect(supportsProtocolFeature('2025-03-26', 'audioContent')).toBe(true)
+      expect(supportsProtocolFeature('2025-03-26', 'titles')).toBe(false)
+      expect(supportsProtocolFeature('2025-03-26', 'resourceLinks')).toBe(false)
+      expect(supportsProtocolFeature('2025-06-18', 'titles')).toBe(true)
+      expect(supportsProtocolFeature('2025-06-18', 'resourceLinks')).toBe(true)
+    })
+
+    it('should treat an unknown version as supporting nothing', () => {
+      expect(supportsProtocolFeature(undefined, 'toolAnnotations')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { startServerAndClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import type { McpMqttServerConfig, RbacRole } from '../src/types.js'
+
+const roles: RbacRole[] = [
+  {
+    name: 'admin',
+    description: 'Full access',
+    allowed_methods: ['tools/list', 'tools/call'],
+    allowed_tools: 'all',
+    allowed_resources: 'all',
+  },
+  {
+    name: 'viewer',
+    description: 'Read-only access',
+    allowed_methods: ['tools/list'],
+    allowed_tools: [],
+    allowed_resources: [],
+  },
+]
+
+describe('RBAC role resolution', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+
+  async function connect(serverConfig: Partial<McpMqttServerConfig>, rbacRole?: string): Promise<string | undefined> {
+    const started = await startServerAndClient(undefined, {
+      server: serverConfig,
+      client: { ...(rbacRole && { rbacRole }) },
+    })
+    server = started.server
+    client = started.client
+    return server.getClientSession('cli1')?.role
+  }
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should ignore the role a client asks for by default', async () => {
+    const role = await connect({ rbac: { roles, defaultRole: 'viewer' } }, 'admin')
+    expect(role).toBe('viewer')
+    await expect(client.callTool('srv1', 'anything', {})).rejects.toMatchObject({ code: -32004 })
+  })
+
+  it('should leave clients without a role when there is no default', async () => {
+    expect(await connect({ rbac: { roles } }, 'admin')).toBeUndefined()
+  })
+
+  it('should accept the requested role when trustClientRole is set', async () => {
+    expect(await connect({ rbac: { roles, defaultRole: 'viewer', trustClientRole: true } }, 'admin')).toBe('admin')
+  })
+
+  it('should prefer the role resolver', async () => {
+    const roleResolver = jest.fn(() => 'viewer')
+    const role = await connect({ rbac: { roles, trustClientRole: true }, roleResolver }, 'admin')
+
+    expect(role).toBe('viewer')
+    expect(roleResolver).toHaveBeenCalledWith('cli1', expect.objectContaining({ 'MCP-RBAC-ROLE': 'admin' }))
+  })
+})
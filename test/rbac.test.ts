@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals'
+import { RbacPolicy } from '../src/server/rbac.js'
+import type { RbacRole } from '../src/types.js'
+
+const roles: RbacRole[] = [
+  {
+    name: 'admin',
+    description: 'Full access',
+    allowed_methods: ['tools/list', 'tools/call', 'resources/list', 'resources/read'],
+    allowed_tools: 'all',
+    allowed_resources: 'all',
+  },
+  {
+    name: 'viewer',
+    description: 'Read-only access',
+    allowed_methods: ['tools/list', 'resources/list', 'resources/read'],
+    allowed_tools: ['get_status'],
+    allowed_resources: ['config://app-settings', 'device://{id}/telemetry'],
+  },
+]
+
+describe('RbacPolicy', () => {
+  const policy = new RbacPolicy(roles)
+
+  it('should know declared roles', () => {
+    expect(policy.hasRole('admin')).toBe(true)
+    expect(policy.hasRole('guest')).toBe(false)
+  })
+
+  describe('isMethodAllowed', () => {
+    it('should allow listed methods', () => {
+      expect(policy.isMethodAllowed('admin', 'tools/call')).toBe(true)
+      expect(policy.isMethodAllowed('viewer', 'resources/read')).toBe(true)
+    })
+
+    it('should deny methods not listed for the role', () => {
+      expect(policy.isMethodAllowed('viewer', 'tools/call')).toBe(false)
+    })
+
+    it('should deny unknown or missing roles', () => {
+      expect(policy.isMethodAllowed('guest', 'tools/list')).toBe(false)
+      expect(policy.isMethodAllowed(undefined, 'tools/list')).toBe(false)
+    })
+
+    it('should always allow ping', () => {
+      expect(policy.isMethodAllowed(undefined, 'ping')).toBe(true)
+    })
+  })
+
+  describe('isToolAllowed', () => {
+    it('should honor "all" and explicit lists', () => {
+      expect(policy.isToolAllowed('admin', 'reboot')).toBe(true)
+      expect(policy.isToolAllowed('viewer', 'get_status')).toBe(true)
+      expect(policy.isToolAllowed('viewer', 'reboot')).toBe(false)
+      expect(policy.isToolAllowed(undefined, 'get_status')).toBe(false)
+    })
+  })
+
+  describe('isResourceAllowed', () => {
+    it('should match exact URIs and URI templates', () => {
+      expect(policy.isResourceAllowed('admin', 'secret://keys')).toBe(true)
+      expect(policy.isResourceAllowed('viewer', 'config://app-settings')).toBe(true)
+      expect(policy.isResourceAllowed('viewer', 'device://dev-1/telemetry')).toBe(true)
+      expect(policy.isResourceAllowed('viewer', 'device://dev-1/firmware')).toBe(false)
+      expect(policy.isResourceAllowed('guest', 'config://app-settings')).toBe(false)
+    })
+  })
+
+  describe('isResourceTemplateAllowed', () => {
+    it('should allow only verbatim templates or "all"', () => {
+      expect(policy.isResourceTemplateAllowed('admin', 'file:///{+path}')).toBe(true)
+      expect(policy.isResourceTemplateAllowed('viewer', 'device://{id}/telemetry')).toBe(true)
+      expect(policy.isResourceTemplateAllowed('viewer', 'file:///{+path}')).toBe(false)
+    })
+  })
+})
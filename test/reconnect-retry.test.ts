@@ -0,0 +1,140 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker, tick } from './helpers/fake-mqtt.js'
+import { startServerAndClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { RetryExhaustedError, TransientError } from '../src/client/retry.js'
+import { McpError } from '../src/shared/utils.js'
+import { ErrorCode } from '../src/types.js'
+
+describe('retries across reconnects', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+  let executions: Record<string, number>
+  let overloaded: Set<string> // methods the server answers with RATE_LIMITED
+
+  function sentByClient(method: string): number {
+    return broker.published.filter(
+      ({ from, topic, payload }) => from === 'cli1' && topic.startsWith('$mcp-rpc/') && payload.includes(method),
+    ).length
+  }
+
+  function reconnect(delayMs: number): Promise<unknown> {
+    const reconnected = new Promise((resolve) => client.once('reconnected', resolve))
+    broker.client('cli1')!.dropAndReconnect(delayMs)
+    return reconnected
+  }
+
+  beforeEach(async () => {
+    executions = {}
+    overloaded = new Set()
+    const started = await startServerAndClient(
+      (server) => {
+        server.use(async (request, _context, next) => {
+          if (overloaded.has(request.method)) {
+            throw new McpError(ErrorCode.RATE_LIMITED, 'Rate limit exceeded')
+          }
+          return next()
+        })
+        server.tool(
+          'read',
+          'Read slowly',
+          { type: 'object' },
+          async () => {
+            executions.read = (executions.read ?? 0) + 1
+            await tick(30)
+            return { content: [{ type: 'text', text: 'value' }] }
+          },
+          { annotations: { readOnlyHint: true } },
+        )
+        server.tool('write', 'Write until aborted', { type: 'object' }, async (_args, { signal }) => {
+          executions.write = (executions.write ?? 0) + 1
+          await new Promise((resolve) => signal.addEventListener('abort', resolve))
+          return { content: [] }
+        })
+      },
+      { client: { retry: { maxAttempts: 3, initialDelayMs: 5 } } },
+    )
+    server = started.server
+    client = started.client
+    // Caches the tool annotations that make `read` retry-safe
+    await client.listTools('srv1')
+  })
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should hold requests made while offline and send them once reconnected', async () => {
+    const order: string[] = []
+    const reconnected = reconnect(30).then(() => order.push('reconnected'))
+    await tick(5)
+
+    const listed = client.listPrompts('srv1').catch((error: Error) => error)
+    await tick(10)
+    expect(sentByClient('prompts/list')).toBe(0)
+
+    await Promise.all([reconnected, listed.then(() => order.push('listed'))])
+    expect(await listed).toEqual([])
+    expect(sentByClient('prompts/list')).toBe(1)
+    expect(order).toEqual(['reconnected', 'listed'])
+  })
+
+  it('should fail in-flight requests that are not retry-safe when the connection drops', async () => {
+    const call = client.callTool('srv1', 'write', {}).catch((error: Error) => error)
+    await tick(5)
+    expect(executions.write).toBe(1)
+
+    const reconnected = reconnect(20)
+    const error = await call
+    expect(error).toBeInstanceOf(TransientError)
+    expect((error as Error).message).toBe('Connection lost before a response arrived')
+
+    await reconnected
+    expect(executions.write).toBe(1)
+    expect(sentByClient('"name":"write"')).toBe(1)
+  })
+
+  it('should send retry-safe requests again after reconnecting', async () => {
+    const call = client.callTool('srv1', 'read', {})
+    await tick(5)
+    expect(executions.read).toBe(1)
+
+    await reconnect(20)
+    expect((await call).content).toEqual([{ type: 'text', text: 'value' }])
+    expect(executions.read).toBe(2)
+    expect(sentByClient('"name":"read"')).toBe(2)
+  })
+
+  it('should report every attempt once the retries run out', async () => {
+    overloaded.add('tools/list')
+
+    const error = await client.listTools('srv1').catch((error: Error) => error)
+
+    expect(error).toBeInstanceOf(RetryExhaustedError)
+    const { method, attempts } = error as RetryExhaustedError
+    expect(method).toBe('tools/list')
+    expect(attempts.map(({ attempt }) => attempt)).toEqual([1, 2, 3])
+    for (const { error: attemptError, durationMs } of attempts) {
+      expect(attemptError).toMatchObject({ code: ErrorCode.RATE_LIMITED })
+      expect(durationMs).toBeGreaterThanOrEqual(0)
+    }
+    expect((error as Error).message).toBe('tools/list failed after 3 attempts: Rate limit exceeded')
+  })
+
+  it('should not retry tool calls that are not retry-safe', async () => {
+    overloaded.add('tools/call')
+
+    await expect(client.callTool('srv1', 'write', {})).rejects.toMatchObject({ code: ErrorCode.RATE_LIMITED })
+    expect(sentByClient('"name":"write"')).toBe(1)
+
+    await expect(client.callTool('srv1', 'read', {})).rejects.toBeInstanceOf(RetryExhaustedError)
+    expect(sentByClient('"name":"read"')).toBe(3)
+  })
+})
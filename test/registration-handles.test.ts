@@ -0,0 +1,131 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { tick } from './helpers/fake-mqtt.js'
+import { startServerAndClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer, RegisteredTool } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { ErrorCode } from '../src/types.js'
+
+describe('registration handles', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+  let tool: RegisteredTool
+  let changes: string[]
+
+  beforeEach(async () => {
+    changes = []
+    const started = await startServerAndClient(
+      (server) => {
+        tool = server.tool('greet', 'Say hello', { type: 'object' }, async () => ({
+          content: [{ type: 'text', text: 'hello' }],
+        }))
+      },
+      {
+        server: {
+          capabilities: {
+            tools: { listChanged: true },
+            resources: { subscribe: true, listChanged: true },
+            prompts: { listChanged: true },
+          },
+          listChangedDebounceMs: 20,
+        },
+        configureClient: (client) => {
+          client.on('serverCapabilityChanged', (_serverId: string, method: string) => changes.push(method))
+        },
+      },
+    )
+    server = started.server
+    client = started.client
+  })
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should apply updates to the listing and the handler', async () => {
+    tool.update({
+      description: 'Say hi',
+      handler: async () => ({ content: [{ type: 'text', text: 'hi' }] }),
+    })
+
+    expect((await client.listTools('srv1'))[0]?.description).toBe('Say hi')
+    expect((await client.callTool('srv1', 'greet', {})).content).toEqual([{ type: 'text', text: 'hi' }])
+  })
+
+  it('should hide disabled entries until enabled again', async () => {
+    tool.disable()
+    expect(tool.enabled).toBe(false)
+    expect(await client.listTools('srv1')).toEqual([])
+    await expect(client.callTool('srv1', 'greet', {})).rejects.toMatchObject({ code: ErrorCode.TOOL_NOT_FOUND })
+
+    tool.enable()
+    expect((await client.callTool('srv1', 'greet', {})).content).toEqual([{ type: 'text', text: 'hello' }])
+  })
+
+  it('should stop working once removed or replaced', async () => {
+    const replacement = server.tool('greet', 'Greet again', { type: 'object' }, async () => ({ content: [] }))
+    expect(tool.enabled).toBe(false)
+    expect(() => tool.update({ description: 'stale' })).toThrow('No longer registered: greet')
+    tool.remove()
+    expect((await client.listTools('srv1'))[0]?.description).toBe('Greet again')
+
+    replacement.remove()
+    expect(await client.listTools('srv1')).toEqual([])
+    expect(server.removeTool('greet')).toBe(false)
+  })
+
+  it('should batch changes into one list_changed per list', async () => {
+    await tick(50)
+    changes = []
+
+    tool.update({ description: 'Say hi' })
+    tool.disable()
+    server.prompt('intro', [], async () => ({ messages: [] }))
+    server.resource('config://app', 'App config', async () => ({ contents: [] }))
+    server.removeResource('config://app')
+    await tick(50)
+
+    expect(changes.sort()).toEqual([
+      'notifications/prompts/list_changed',
+      'notifications/resources/list_changed',
+      'notifications/tools/list_changed',
+    ])
+  })
+
+  it('should drop subscriptions when a resource or template is removed', async () => {
+    const updates: string[] = []
+    const config = server.resource('config://app', 'App config', async () => ({ contents: [] }))
+    server.resourceTemplate('device://{id}', 'Device', async (uri) => ({ contents: [{ uri, text: '' }] }))
+    await client.subscribeResource('srv1', 'config://app', (uri) => updates.push(uri))
+    await client.subscribeResource('srv1', 'device://pump-7', (uri) => updates.push(uri))
+
+    config.remove()
+    server.removeResourceTemplate('device://{id}')
+    server.resourceTemplate('device://{id}', 'Device', async (uri) => ({ contents: [{ uri, text: '' }] }))
+    await server.notifyResourceUpdated('config://app')
+    await server.notifyResourceUpdated('device://pump-7')
+    await tick()
+
+    expect(updates).toEqual([])
+  })
+
+  it('should keep subscriptions that another template still serves', async () => {
+    const updates: string[] = []
+    server.resourceTemplate('device://{id}', 'Device', async (uri) => ({ contents: [{ uri, text: '' }] }))
+    const specific = server.resourceTemplate('device://pump-{n}', 'Pump', async (uri) => ({
+      contents: [{ uri, text: '' }],
+    }))
+    await client.subscribeResource('srv1', 'device://pump-7', (uri) => updates.push(uri))
+
+    specific.remove()
+    await server.notifyResourceUpdated('device://pump-7')
+    await tick()
+
+    expect(updates).toEqual(['device://pump-7'])
+  })
+})
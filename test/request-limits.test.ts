@@ -0,0 +1,193 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker, tick } from './helpers/fake-mqtt.js'
+import { createServer, connectClient, startServerAndClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { McpError } from '../src/shared/utils.js'
+import { ErrorCode } from '../src/types.js'
+import type { McpMqttServerConfig } from '../src/types.js'
+
+describe('request concurrency limits', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+  let finishers: Array<() => void>
+
+  beforeEach(async () => {
+    finishers = []
+    const started = await startServerAndClient(
+      (server) => {
+        // Ignores its abort signal, like a handler stuck in a call that cannot be interrupted
+        server.tool('job', 'Run a job', { type: 'object' }, async () => {
+          await new Promise<void>((resolve) => finishers.push(resolve))
+          return { content: [{ type: 'text', text: 'done' }] }
+        })
+        server.tool('quick', 'Answer right away', { type: 'object' }, async () => ({ content: [] }))
+      },
+      { server: { limits: { maxConcurrentRequestsPerClient: 1 } } },
+    )
+    server = started.server
+    client = started.client
+  })
+
+  afterEach(async () => {
+    finishers.forEach((finish) => finish())
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should queue requests over the per-client limit', async () => {
+    const first = client.callTool('srv1', 'job', {})
+    const second = client.callTool('srv1', 'job', {})
+    await tick()
+
+    expect(server.getStats()).toMatchObject({ activeRequests: 1, queuedRequests: 1 })
+    finishers[0]?.()
+    await first
+    await tick()
+    expect(finishers).toHaveLength(2)
+    finishers[1]?.()
+    await second
+  })
+
+  it('should keep the slot of a cancelled handler until it finishes', async () => {
+    const controller = new AbortController()
+    const cancelled = client.callTool('srv1', 'job', {}, { signal: controller.signal })
+    await tick()
+    controller.abort()
+    await expect(cancelled).rejects.toThrow('cancelled')
+    await tick()
+
+    expect(server.getStats().activeRequests).toBe(1)
+    const next = client.callTool('srv1', 'quick', {})
+    await tick()
+    expect(server.getStats()).toMatchObject({ activeRequests: 1, queuedRequests: 1 })
+
+    finishers[0]?.()
+    await next
+    expect(server.getStats()).toMatchObject({ activeRequests: 0, queuedRequests: 0 })
+  })
+
+  it('should answer a timed-out request early but keep its slot', async () => {
+    server.tool(
+      'stuck',
+      'Never returns',
+      { type: 'object' },
+      async () => {
+        await new Promise<void>((resolve) => finishers.push(resolve))
+        return { content: [] }
+      },
+      { timeoutMs: 30 },
+    )
+
+    await expect(client.callTool('srv1', 'stuck', {})).rejects.toMatchObject({ code: ErrorCode.REQUEST_TIMEOUT })
+    expect(server.getStats().activeRequests).toBe(1)
+
+    finishers[0]?.()
+    await tick()
+    expect(server.getStats().activeRequests).toBe(0)
+  })
+})
+
+describe('request rate limits and queue size', () => {
+  let server: McpMqttServer | undefined
+  let clients: McpMqttClient[]
+  let finishers: Array<() => void>
+
+  async function connect(clientId: string): Promise<McpMqttClient> {
+    // No retries, so every call reaches the server once
+    const client = await connectClient({ clientId, retry: { maxAttempts: 1 } })
+    clients.push(client)
+    return client
+  }
+
+  async function start(limits: NonNullable<McpMqttServerConfig['limits']>): Promise<McpMqttClient> {
+    server = createServer({ limits })
+    server.tool('job', 'Run a job', { type: 'object' }, async () => {
+      await new Promise<void>((resolve) => finishers.push(resolve))
+      return { content: [] }
+    })
+    server.tool('quick', 'Answer right away', { type: 'object' }, async () => ({ content: [] }))
+    await server.start()
+    return connect('cli1')
+  }
+
+  beforeEach(() => {
+    broker.reset()
+    server = undefined
+    clients = []
+    finishers = []
+  })
+
+  afterEach(async () => {
+    finishers.forEach((finish) => finish())
+    for (const client of clients) {
+      await client.disconnect()
+    }
+    await server?.stop({ drainTimeoutMs: 0 })
+  })
+
+  it('should rate limit each client separately and say when to retry', async () => {
+    const client = await start({ clientRateLimit: { requestsPerSecond: 1, burst: 2 } })
+
+    await client.callTool('srv1', 'quick', {})
+    await client.listTools('srv1')
+    const error = await client.callTool('srv1', 'quick', {}).catch((error: McpError) => error)
+    expect(error).toBeInstanceOf(McpError)
+    expect(error).toMatchObject({ code: ErrorCode.RATE_LIMITED, message: 'Rate limit exceeded for client cli1' })
+    expect((error as McpError).data.retryAfterMs).toBeGreaterThan(0)
+    expect((error as McpError).data.retryAfterMs).toBeLessThanOrEqual(1000)
+
+    const other = await connect('cli2')
+    await expect(other.callTool('srv1', 'quick', {})).resolves.toEqual({ content: [] })
+    expect(server!.getStats().rejectedRequests).toEqual({ rateLimited: 1, queueFull: 0 })
+  })
+
+  it('should share a tool rate limit between clients and leave other tools alone', async () => {
+    const client = await start({ toolRateLimits: { quick: { requestsPerSecond: 1 } } })
+    const other = await connect('cli2')
+
+    await client.callTool('srv1', 'quick', {})
+    await expect(other.callTool('srv1', 'quick', {})).rejects.toMatchObject({
+      code: ErrorCode.RATE_LIMITED,
+      message: 'Rate limit exceeded for tool quick',
+      data: { retryAfterMs: expect.any(Number) },
+    })
+    await expect(client.listTools('srv1')).resolves.toHaveLength(2)
+    expect(server!.getStats().rejectedRequests).toEqual({ rateLimited: 1, queueFull: 0 })
+  })
+
+  it('should not rate limit ping', async () => {
+    const client = await start({ clientRateLimit: { requestsPerSecond: 1 } })
+
+    await client.callTool('srv1', 'quick', {})
+    await expect(client.ping('srv1')).resolves.toBe(true)
+    await expect(client.ping('srv1')).resolves.toBe(true)
+    await expect(client.callTool('srv1', 'quick', {})).rejects.toMatchObject({ code: ErrorCode.RATE_LIMITED })
+    expect(server!.getStats().rejectedRequests).toEqual({ rateLimited: 1, queueFull: 0 })
+  })
+
+  it('should answer QUEUE_FULL once the queue is full', async () => {
+    const client = await start({ maxConcurrentRequests: 1, maxQueueSize: 1 })
+
+    const first = client.callTool('srv1', 'job', {})
+    const second = client.callTool('srv1', 'job', {})
+    await tick()
+    await expect(client.callTool('srv1', 'quick', {})).rejects.toMatchObject({ code: ErrorCode.QUEUE_FULL })
+    expect(server!.getStats()).toMatchObject({
+      activeRequests: 1,
+      queuedRequests: 1,
+      rejectedRequests: { rateLimited: 0, queueFull: 1 },
+    })
+
+    finishers[0]?.()
+    await first
+    await tick()
+    finishers[1]?.()
+    await second
+  })
+})
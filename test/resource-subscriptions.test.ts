@@ -0,0 +1,106 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker, tick } from './helpers/fake-mqtt.js'
+import { startServerAndClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { ErrorCode } from '../src/types.js'
+
+describe('resource templates and subscriptions', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+
+  beforeEach(async () => {
+    const started = await startServerAndClient(
+      (server) => {
+        server.resource('config://app', 'App config', async () => ({
+          contents: [{ uri: 'config://app', text: '{}' }],
+        }))
+        server.resourceTemplate('device://{id}/telemetry', 'Telemetry', async (uri, { id }) => ({
+          contents: [{ uri, text: `telemetry of ${id}` }],
+        }))
+      },
+      { server: { capabilities: { resources: { subscribe: true } } } },
+    )
+    server = started.server
+    client = started.client
+  })
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should list templates and read resources matching them', async () => {
+    expect(await client.listResourceTemplates('srv1')).toEqual([
+      expect.objectContaining({ uriTemplate: 'device://{id}/telemetry', name: 'Telemetry' }),
+    ])
+
+    const result = await client.readResource('srv1', 'device://pump-7/telemetry')
+    expect(result.contents).toEqual([{ uri: 'device://pump-7/telemetry', text: 'telemetry of pump-7' }])
+
+    await expect(client.readResource('srv1', 'device://pump-7/status')).rejects.toMatchObject({
+      code: ErrorCode.RESOURCE_NOT_FOUND,
+    })
+  })
+
+  it('should deliver updates to subscribers until they unsubscribe', async () => {
+    const updates: string[] = []
+    const unsubscribe = await client.subscribeResource('srv1', 'device://pump-7/telemetry', (uri) => updates.push(uri))
+
+    await server.notifyResourceUpdated('device://pump-7/telemetry')
+    await server.notifyResourceUpdated('device://pump-8/telemetry')
+    await tick()
+    expect(updates).toEqual(['device://pump-7/telemetry'])
+
+    await unsubscribe()
+    await server.notifyResourceUpdated('device://pump-7/telemetry')
+    await tick()
+    expect(updates).toEqual(['device://pump-7/telemetry'])
+  })
+
+  it('should only ask the server once per URI', async () => {
+    const first: string[] = []
+    const second: string[] = []
+    const unsubscribeFirst = await client.subscribeResource('srv1', 'config://app', (uri) => first.push(uri))
+    const unsubscribeSecond = await client.subscribeResource('srv1', 'config://app', (uri) => second.push(uri))
+
+    const subscribeRequests = broker.published.filter(({ payload }) => payload.includes('"resources/subscribe"'))
+    expect(subscribeRequests).toHaveLength(1)
+
+    await unsubscribeFirst()
+    await server.notifyResourceUpdated('config://app')
+    await tick()
+    expect(first).toEqual([])
+    expect(second).toEqual(['config://app'])
+
+    await unsubscribeSecond()
+    expect(broker.published.filter(({ payload }) => payload.includes('"resources/unsubscribe"'))).toHaveLength(1)
+  })
+
+  it('should reject subscriptions to unknown resources', async () => {
+    await expect(client.subscribeResource('srv1', 'device://pump-7/status', () => {})).rejects.toMatchObject({
+      code: ErrorCode.RESOURCE_NOT_FOUND,
+    })
+  })
+
+  it('should drop the subscriptions of clients that go away and take them back on reconnect', async () => {
+    const updates: string[] = []
+    await client.subscribeResource('srv1', 'config://app', (uri) => updates.push(uri))
+    const reconnected = new Promise((resolve) => client.once('reconnected', resolve))
+
+    broker.client('cli1')!.dropAndReconnect(50)
+    await tick()
+    await server.notifyResourceUpdated('config://app')
+    expect(broker.published.filter(({ payload }) => payload.includes('notifications/resources/updated'))).toEqual([])
+
+    await reconnected
+    await server.notifyResourceUpdated('config://app')
+    await tick()
+    expect(updates).toEqual(['config://app'])
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock nanoid before importing utils
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn(() => 'test-id-123'),
+}))
+
+import { RetryExhaustedError, TransientError, getRetryDelay, isTransientError } from '../src/client/retry.js'
+import { McpError } from '../src/shared/utils.js'
+import { ErrorCode } from '../src/types.js'
+
+describe('getRetryDelay', () => {
+  it('should back off exponentially up to the maximum', () => {
+    const policy = { initialDelayMs: 100, maxDelayMs: 1000, backoffMultiplier: 3 }
+    expect(getRetryDelay(policy, 1, new TransientError('timeout'))).toBe(100)
+    expect(getRetryDelay(policy, 2, new TransientError('timeout'))).toBe(300)
+    expect(getRetryDelay(policy, 3, new TransientError('timeout'))).toBe(900)
+    expect(getRetryDelay(policy, 4, new TransientError('timeout'))).toBe(1000)
+  })
+
+  it('should use defaults without a policy', () => {
+    expect(getRetryDelay({}, 1, new TransientError('timeout'))).toBe(200)
+    expect(getRetryDelay({}, 2, new TransientError('timeout'))).toBe(400)
+  })
+
+  it('should honor a longer retryAfterMs from the server', () => {
+    const error = new McpError(ErrorCode.RATE_LIMITED, 'Rate limit exceeded', { retryAfterMs: 2500 })
+    expect(getRetryDelay({ initialDelayMs: 100 }, 1, error)).toBe(2500)
+    expect(getRetryDelay({ initialDelayMs: 5000, maxDelayMs: 5000 }, 1, error)).toBe(5000)
+  })
+})
+
+describe('isTransientError', () => {
+  it('should accept timeouts, lost connections and overload errors', () => {
+    expect(isTransientError(new TransientError('Request timeout: ping (10000ms)'))).toBe(true)
+    expect(isTransientError(new McpError(ErrorCode.RATE_LIMITED, 'Rate limited'))).toBe(true)
+    expect(isTransientError(new McpError(ErrorCode.QUEUE_FULL, 'Queue full'))).toBe(true)
+  })
+
+  it('should reject errors that describe the request itself', () => {
+    expect(isTransientError(new McpError(ErrorCode.INVALID_PARAMS, 'Invalid params'))).toBe(false)
+    expect(isTransientError(new McpError(ErrorCode.TOOL_NOT_FOUND, 'Tool not found'))).toBe(false)
+    expect(isTransientError(new Error('Server not connected: srv1'))).toBe(false)
+  })
+})
+
+describe('RetryExhaustedError', () => {
+  it('should carry the attempt history and the last error', () => {
+    const attempts = [
+      { attempt: 1, error: new TransientError('Request timeout: tools/list (30000ms)'), durationMs: 30000 },
+      { attempt: 2, error: new McpError(ErrorCode.QUEUE_FULL, 'Server is busy'), durationMs: 5 },
+    ]
+    const error = new RetryExhaustedError('tools/list', attempts)
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe('RetryExhaustedError')
+    expect(error.method).toBe('tools/list')
+    expect(error.attempts).toBe(attempts)
+    expect(error.message).toBe('tools/list failed after 2 attempts: Server is busy')
+  })
+})
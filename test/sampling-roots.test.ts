@@ -0,0 +1,76 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker } from './helpers/fake-mqtt.js'
+import { createServer, connectClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import type { McpMqttClientConfig } from '../src/types.js'
+
+const samplingParams = {
+  messages: [{ role: 'user' as const, content: { type: 'text' as const, text: 'Summarize' } }],
+  maxTokens: 50,
+}
+
+describe('sampling and roots', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+
+  async function connect(capabilities?: McpMqttClientConfig['capabilities']): Promise<void> {
+    client = await connectClient({ ...(capabilities && { capabilities }) }, { initialize: false })
+  }
+
+  beforeEach(async () => {
+    broker.reset()
+    server = createServer()
+    await server.start()
+  })
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should not advertise capabilities the client was not configured with', async () => {
+    await connect()
+    await client.initializeServer('srv1')
+
+    expect(server.getClientSession('cli1')?.capabilities).toEqual({})
+    await expect(server.requestSampling('cli1', samplingParams)).rejects.toThrow('does not support sampling')
+    await expect(server.listRoots('cli1')).rejects.toThrow('does not support roots')
+  })
+
+  it('should route server requests to the configured handlers', async () => {
+    await connect({ sampling: {}, roots: { listChanged: true } })
+    client.setRequestHandler('sampling/createMessage', async (params, { serverId }) => ({
+      role: 'assistant',
+      content: { type: 'text', text: `${params.messages.length} message(s) from ${serverId}` },
+      model: 'test-model',
+    }))
+    client.setRequestHandler('roots/list', async () => ({ roots: [{ uri: 'file:///workspace' }] }))
+    await client.initializeServer('srv1')
+
+    expect(server.getClientSession('cli1')?.capabilities).toEqual({ sampling: {}, roots: { listChanged: true } })
+    expect((await server.requestSampling('cli1', samplingParams)).content).toEqual({
+      type: 'text',
+      text: '1 message(s) from srv1',
+    })
+    expect(await server.listRoots('cli1')).toEqual({ roots: [{ uri: 'file:///workspace' }] })
+  })
+
+  it('should refuse handlers for capabilities the client does not declare', async () => {
+    await connect({ roots: {} })
+
+    expect(() => client.setRequestHandler('roots/list', async () => ({ roots: [] }))).not.toThrow()
+    expect(() =>
+      client.setRequestHandler('sampling/createMessage', async () => ({
+        role: 'assistant',
+        content: { type: 'text', text: '' },
+        model: 'test-model',
+      })),
+    ).toThrow('sampling capability')
+  })
+})
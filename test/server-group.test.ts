@@ -0,0 +1,155 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => 'test-id-123') }))
+
+import { ServerGroup } from '../src/client/server-group.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { RetryExhaustedError, TransientError } from '../src/client/retry.js'
+import { McpError } from '../src/shared/utils.js'
+import { ErrorCode } from '../src/types.js'
+
+// Just enough of McpMqttClient for a group: instances answer through `handlers`
+class FakeClient {
+  connected = new Set(['srv1', 'srv2', 'srv3'])
+  pending: Record<string, number> = {}
+  retrySafeTools = new Set<string>()
+  handlers: Record<string, (name: string) => Promise<unknown>> = {}
+  calls: string[] = []
+
+  getConnectedServers() {
+    return [...this.connected].reverse().map((serverId) => ({ serverId, serverName: 'plant/plc' }))
+  }
+
+  isServerConnected(serverId: string): boolean {
+    return this.connected.has(serverId)
+  }
+
+  getPendingRequestCount(serverId: string): number {
+    return this.pending[serverId] ?? 0
+  }
+
+  isRetrySafe(_serverId: string, method: string, params?: Record<string, any>): boolean {
+    return method === 'tools/call' ? this.retrySafeTools.has(params?.name) : true
+  }
+
+  async callTool(serverId: string, name: string) {
+    this.calls.push(serverId)
+    const handler = this.handlers[serverId]
+    return handler ? handler(name) : { content: [{ type: 'text', text: serverId }] }
+  }
+
+  async listTools(serverId: string) {
+    this.calls.push(serverId)
+    const handler = this.handlers[serverId]
+    return handler ? handler('tools/list') : []
+  }
+}
+
+describe('ServerGroup', () => {
+  let client: FakeClient
+
+  // least-pending tries idle instances in serverId order, which keeps the failover tests predictable
+  function group(strategy?: 'round-robin' | 'least-pending' | 'random'): ServerGroup {
+    return new ServerGroup(client as unknown as McpMqttClient, 'plant/plc', strategy)
+  }
+
+  beforeEach(() => {
+    client = new FakeClient()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should list the initialized instances in serverId order', () => {
+    expect(group().instances()).toEqual(['srv1', 'srv2', 'srv3'])
+  })
+
+  it('should rotate through the instances with round-robin', async () => {
+    const roundRobin = group()
+    const served = []
+    for (let i = 0; i < 4; i++) {
+      served.push((await roundRobin.callTool('read')).serverId)
+    }
+    expect(served).toEqual(['srv1', 'srv2', 'srv3', 'srv1'])
+  })
+
+  it('should pick the instance with the fewest pending requests', async () => {
+    client.pending = { srv1: 3, srv2: 1, srv3: 2 }
+    expect((await group('least-pending').callTool('read')).serverId).toBe('srv2')
+  })
+
+  it('should pick a random instance', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.9)
+    expect((await group('random').callTool('read')).serverId).toBe('srv3')
+  })
+
+  it('should fail over when an instance goes offline or was not able to take the request', async () => {
+    client.retrySafeTools.add('read')
+    client.handlers.srv1 = async () => {
+      client.connected.delete('srv1')
+      throw new TransientError('Server disconnected: srv1')
+    }
+    client.handlers.srv2 = async () => {
+      throw new McpError(ErrorCode.SERVER_SHUTTING_DOWN, 'Server is shutting down')
+    }
+
+    const { serverId, result } = await group('least-pending').callTool('read')
+    expect(serverId).toBe('srv3')
+    expect(result.content).toEqual([{ type: 'text', text: 'srv3' }])
+    expect(client.calls).toEqual(['srv1', 'srv2', 'srv3'])
+  })
+
+  it('should not repeat a tool call on another instance when the first went offline unless it is retry-safe', async () => {
+    client.handlers.srv1 = async () => {
+      client.connected.delete('srv1')
+      throw new TransientError('Server disconnected: srv1')
+    }
+
+    await expect(group('least-pending').callTool('write')).rejects.toThrow('Server disconnected')
+    expect(client.calls).toEqual(['srv1'])
+  })
+
+  it('should not repeat a timed-out tool call unless the tool is retry-safe', async () => {
+    client.handlers.srv1 = async () => {
+      throw new TransientError('Request timeout: tools/call')
+    }
+
+    await expect(group('least-pending').callTool('write')).rejects.toThrow('Request timeout')
+    expect(client.calls).toEqual(['srv1'])
+
+    client.calls = []
+    client.retrySafeTools.add('read')
+    expect((await group('least-pending').callTool('read')).serverId).toBe('srv2')
+    expect(client.calls).toEqual(['srv1', 'srv2'])
+  })
+
+  it('should fail over retry-safe requests whose retries ran out', async () => {
+    client.handlers.srv1 = async () => {
+      throw new RetryExhaustedError('tools/list', [])
+    }
+    expect((await group('least-pending').listTools()).serverId).toBe('srv2')
+  })
+
+  it('should throw errors about the request right away', async () => {
+    client.handlers.srv1 = async () => {
+      throw new McpError(ErrorCode.TOOL_NOT_FOUND, 'Tool not found: write')
+    }
+    await expect(group('least-pending').callTool('write')).rejects.toMatchObject({ code: ErrorCode.TOOL_NOT_FOUND })
+    expect(client.calls).toEqual(['srv1'])
+  })
+
+  it('should throw the last error once every instance failed', async () => {
+    for (const serverId of ['srv1', 'srv2', 'srv3']) {
+      client.handlers[serverId] = async () => {
+        throw new McpError(ErrorCode.QUEUE_FULL, `Queue full on ${serverId}`)
+      }
+    }
+    await expect(group('least-pending').callTool('write')).rejects.toThrow('Queue full on srv3')
+  })
+
+  it('should report when no instance is initialized', async () => {
+    client.connected.clear()
+    await expect(group().callTool('write')).rejects.toThrow('No initialized server instance: plant/plc')
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker, tick } from './helpers/fake-mqtt.js'
+import { startServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { ErrorCode } from '../src/types.js'
+
+describe('server stop and restart', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+  let aborted: unknown[]
+  let running: boolean
+
+  async function restart(): Promise<void> {
+    const discovered = new Promise((resolve) => client.once('serverDiscovered', resolve))
+    await server.start()
+    running = true
+    await discovered
+    await client.initializeServer('srv1')
+  }
+
+  async function stop(drainTimeoutMs: number): Promise<void> {
+    running = false
+    await server.stop({ drainTimeoutMs })
+  }
+
+  beforeEach(async () => {
+    aborted = []
+    const started = await startServerAndClient(
+      (server) => {
+        server.tool('sleep', 'Sleep for a while', { type: 'object' }, async ({ ms }, { signal }) => {
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, ms)
+            signal.addEventListener('abort', () => {
+              aborted.push(signal.reason)
+              clearTimeout(timer)
+              resolve()
+            })
+          })
+          return { content: [{ type: 'text', text: `slept ${ms}` }] }
+        })
+        server.resource('config://app', 'App config', async () => ({ contents: [] }))
+      },
+      { server: { capabilities: { resources: { subscribe: true } } } },
+    )
+    server = started.server
+    client = started.client
+    running = true
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    if (running) {
+      await server.stop({ drainTimeoutMs: 0 })
+    }
+  })
+
+  it('should let in-flight requests finish within the drain timeout', async () => {
+    const call = client.callTool('srv1', 'sleep', { ms: 30 })
+    await tick(5)
+
+    await stop(500)
+    expect((await call).content).toEqual([{ type: 'text', text: 'slept 30' }])
+    expect(aborted).toEqual([])
+  })
+
+  it('should abort requests still running when the drain timeout passes', async () => {
+    const call = client.callTool('srv1', 'sleep', { ms: 1000 }).catch((error: unknown) => error)
+    await tick(5)
+
+    await stop(20)
+    expect(await call).toMatchObject({ code: ErrorCode.SERVER_SHUTTING_DOWN })
+    expect(aborted).toEqual([expect.objectContaining({ code: ErrorCode.SERVER_SHUTTING_DOWN })])
+  })
+
+  it('should end every session on stop', async () => {
+    const disconnected: string[] = []
+    server.on('clientDisconnected', (clientId) => disconnected.push(clientId))
+    await client.subscribeResource('srv1', 'config://app', () => {})
+
+    await stop(0)
+    expect(disconnected).toEqual(['cli1'])
+    expect(server.getConnectedClients()).toEqual([])
+  })
+
+  it('should serve requests again after a restart', async () => {
+    const updates: string[] = []
+    await client.subscribeResource('srv1', 'config://app', (uri) => updates.push(uri))
+    await stop(0)
+    await tick()
+
+    await restart()
+    const result = await client.callTool('srv1', 'sleep', { ms: 1 })
+    expect(result.content).toEqual([{ type: 'text', text: 'slept 1' }])
+
+    // One handler per message, and no subscription left over from the previous run
+    const responses = broker.published.filter(({ from, payload }) => from === 'srv1' && payload.includes('slept 1'))
+    expect(responses).toHaveLength(1)
+    await server.notifyResourceUpdated('config://app')
+    await tick()
+    expect(updates).toEqual([])
+  })
+})
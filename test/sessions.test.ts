@@ -0,0 +1,108 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker, tick } from './helpers/fake-mqtt.js'
+import { createServer, connectClient } from './helpers/setup.js'
+import type { ClientSession, McpMqttServer, RequestContext } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+
+describe('client sessions and request context', () => {
+  let server: McpMqttServer
+  let clients: McpMqttClient[]
+  let contexts: RequestContext[]
+
+  async function connect(clientId: string): Promise<McpMqttClient> {
+    const client = await connectClient({ clientId, name: `app-${clientId}`, version: '2.0.0' })
+    clients.push(client)
+    return client
+  }
+
+  beforeEach(async () => {
+    broker.reset()
+    clients = []
+    contexts = []
+    server = createServer()
+    server.tool('count', 'Count calls per client', { type: 'object' }, async (_params, context) => {
+      contexts.push(context)
+      context.session.state.calls = (context.session.state.calls ?? 0) + 1
+      return { content: [{ type: 'text', text: String(context.session.state.calls) }] }
+    })
+    await server.start()
+  })
+
+  afterEach(async () => {
+    for (const client of clients) {
+      await client.disconnect()
+    }
+    await server.stop({ drainTimeoutMs: 0 })
+  })
+
+  it('should create a session on initialize and mark it initialized', async () => {
+    const initialized: ClientSession[] = []
+    server.on('clientInitialized', (session) => initialized.push(session))
+
+    await connect('cli1')
+    await tick()
+
+    const session = server.getClientSession('cli1')
+    expect(session).toMatchObject({
+      clientId: 'cli1',
+      clientInfo: { name: 'app-cli1', version: '2.0.0' },
+      initialized: true,
+      logLevel: 'info',
+      state: {},
+    })
+    expect(session?.connectedAt).toBeInstanceOf(Date)
+    expect(initialized).toEqual([session])
+  })
+
+  it('should pass the session and request details to handlers', async () => {
+    const client = await connect('cli1')
+    await client.callTool('srv1', 'count', {})
+
+    const [context] = contexts
+    expect(context?.clientId).toBe('cli1')
+    expect(context?.session).toBe(server.getClientSession('cli1'))
+    expect(context?.requestId).toEqual(expect.any(String))
+    expect(context?.userProperties).toMatchObject({ 'MCP-COMPONENT-TYPE': 'mcp-client', 'MCP-MQTT-CLIENT-ID': 'cli1' })
+    expect(context?.signal.aborted).toBe(false)
+  })
+
+  it('should keep handler state separate per client', async () => {
+    const first = await connect('cli1')
+    const second = await connect('cli2')
+
+    await first.callTool('srv1', 'count', {})
+    await first.callTool('srv1', 'count', {})
+    const result = await second.callTool('srv1', 'count', {})
+
+    expect(result.content).toEqual([{ type: 'text', text: '1' }])
+    expect(server.getClientSession('cli1')?.state).toEqual({ calls: 2 })
+    expect(server.getConnectedClients().map(({ clientId }) => clientId)).toEqual(['cli1', 'cli2'])
+  })
+
+  it('should start a fresh session when a client initializes again', async () => {
+    const client = await connect('cli1')
+    await client.callTool('srv1', 'count', {})
+
+    await client.initializeServer('srv1')
+    expect(server.getClientSession('cli1')?.state).toEqual({})
+  })
+
+  it('should end the session when the client disconnects', async () => {
+    const disconnected: string[] = []
+    server.on('clientDisconnected', (clientId) => disconnected.push(clientId))
+    const client = await connect('cli1')
+
+    await client.disconnect()
+    clients = []
+    await tick()
+
+    expect(disconnected).toEqual(['cli1'])
+    expect(server.getClientSession('cli1')).toBeUndefined()
+  })
+})
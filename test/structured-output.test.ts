@@ -0,0 +1,69 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { z } from 'zod'
+import { startServerAndClient, stopServerAndClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import { ErrorCode } from '../src/types.js'
+
+const Reading = z.object({ temperature: z.number(), unit: z.enum(['C', 'F']) })
+
+describe('structured tool output', () => {
+  let server: McpMqttServer
+  let client: McpMqttClient
+  let reading: unknown
+
+  beforeEach(async () => {
+    reading = { temperature: 21.5, unit: 'C' }
+    const started = await startServerAndClient((server) => {
+      server.tool(
+        'read',
+        'Read the temperature',
+        { type: 'object' },
+        async () => ({ content: [], structuredContent: reading as Record<string, unknown> }),
+        { outputSchema: Reading },
+      )
+    })
+    server = started.server
+    client = started.client
+  })
+
+  afterEach(async () => {
+    await stopServerAndClient({ server, client })
+  })
+
+  it('should advertise the output schema and mirror the result as text', async () => {
+    const [tool] = await client.listTools('srv1')
+    expect(tool?.outputSchema).toMatchObject({ type: 'object', required: ['temperature', 'unit'] })
+
+    const result = await client.callTool('srv1', 'read', {}, { outputSchema: Reading })
+    expect(result.structuredContent).toEqual({ temperature: 21.5, unit: 'C' })
+    expect(result.content).toEqual([{ type: 'text', text: JSON.stringify({ temperature: 21.5, unit: 'C' }) }])
+  })
+
+  it('should fail calls whose structured content does not match', async () => {
+    reading = { temperature: 'warm', unit: 'C' }
+    await expect(client.callTool('srv1', 'read', {})).rejects.toMatchObject({ code: ErrorCode.INTERNAL_ERROR })
+
+    reading = undefined
+    await expect(client.callTool('srv1', 'read', {})).rejects.toThrow('returned no structured content')
+  })
+
+  it('should refuse output schemas that are not Zod schemas', () => {
+    expect(() =>
+      server.tool('other', 'Other', { type: 'object' }, async () => ({ content: [] }), {
+        outputSchema: { type: 'object' } as unknown as z.ZodTypeAny,
+      }),
+    ).toThrow('Tool output schema must be a Zod schema: other')
+    expect(() =>
+      server.tool('list', 'List', { type: 'object' }, async () => ({ content: [] }), {
+        outputSchema: z.array(z.string()),
+      }),
+    ).toThrow('Tool output schema must describe an object: list')
+  })
+})
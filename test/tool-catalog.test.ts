@@ -0,0 +1,117 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('mqtt', () => jest.requireActual('./helpers/fake-mqtt.js'))
+
+let nextId = 0
+jest.mock('nanoid', () => ({ nanoid: jest.fn(() => `id-${++nextId}`) }))
+
+import { broker, tick } from './helpers/fake-mqtt.js'
+import { createServer, connectClient } from './helpers/setup.js'
+import type { McpMqttServer } from '../src/server/mcp-server.js'
+import type { McpMqttClient } from '../src/client/mcp-client.js'
+import type { ToolCatalog } from '../src/client/tool-catalog.js'
+import { ErrorCode } from '../src/types.js'
+
+describe('ToolCatalog', () => {
+  let servers: Map<string, McpMqttServer>
+  let client: McpMqttClient
+  let catalog: ToolCatalog
+
+  async function startServer(serverId: string, serverName: string, tools: string[]): Promise<void> {
+    const server = createServer({
+      serverId,
+      serverName,
+      capabilities: { tools: { listChanged: true } },
+      listChangedDebounceMs: 5,
+    })
+    for (const tool of tools) {
+      server.tool(tool, `${tool} on ${serverId}`, { type: 'object' }, async () => ({
+        content: [{ type: 'text', text: serverId }],
+      }))
+    }
+    await server.start()
+    servers.set(serverId, server)
+  }
+
+  async function call(name: string): Promise<string | undefined> {
+    return (await catalog.call(name, {})).content[0]?.text
+  }
+
+  beforeEach(async () => {
+    broker.reset()
+    servers = new Map()
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    await startServer('plc-a', 'plant/plc', ['read', 'write'])
+    await startServer('plc-b', 'plant/plc', ['read'])
+    await startServer('hvac', 'plant/hvac', ['read'])
+
+    client = await connectClient({ autoConnect: true }, { initialize: false })
+    await tick(50)
+    catalog = await client.createToolCatalog()
+  })
+
+  afterEach(async () => {
+    catalog.close()
+    await client.disconnect()
+    for (const server of servers.values()) {
+      await server.stop({ drainTimeoutMs: 0 })
+    }
+    jest.restoreAllMocks()
+  })
+
+  it('should namespace tools by server name and track the instances offering each', () => {
+    const tools = catalog
+      .list()
+      .map(({ name, serverIds, toolName }) => ({ name, serverIds: serverIds.sort(), toolName }))
+    expect(tools.sort((a, b) => a.name.localeCompare(b.name))).toEqual([
+      { name: 'plant/hvac__read', serverIds: ['hvac'], toolName: 'read' },
+      { name: 'plant/plc__read', serverIds: ['plc-a', 'plc-b'], toolName: 'read' },
+      { name: 'plant/plc__write', serverIds: ['plc-a'], toolName: 'write' },
+    ])
+  })
+
+  it('should only route calls to instances that list the tool', async () => {
+    const served = [await call('plant/plc__write'), await call('plant/plc__write'), await call('plant/plc__write')]
+    expect(served).toEqual(['plc-a', 'plc-a', 'plc-a'])
+
+    const reads = [await call('plant/plc__read'), await call('plant/plc__read')]
+    expect(reads.sort()).toEqual(['plc-a', 'plc-b'])
+    expect(await call('plant/hvac__read')).toBe('hvac')
+  })
+
+  it('should reject names that are not in the catalog', async () => {
+    await expect(catalog.call('plant/plc__reboot', {})).rejects.toMatchObject({ code: ErrorCode.TOOL_NOT_FOUND })
+  })
+
+  it('should rebuild when a server changes its tools', async () => {
+    const updated = new Promise((resolve) => catalog.once('updated', resolve))
+    servers.get('plc-b')!.tool('write', 'write on plc-b', { type: 'object' }, async () => ({
+      content: [{ type: 'text', text: 'plc-b' }],
+    }))
+    await updated
+
+    expect(catalog.get('plant/plc__write')?.serverIds.sort()).toEqual(['plc-a', 'plc-b'])
+  })
+
+  it('should drop the tools of a server that goes away', async () => {
+    const updated = new Promise((resolve) => catalog.once('updated', resolve))
+    await servers.get('plc-a')!.stop({ drainTimeoutMs: 0 })
+    servers.delete('plc-a')
+    await updated
+
+    expect(catalog.get('plant/plc__write')).toBeUndefined()
+    expect(catalog.get('plant/plc__read')?.serverIds).toEqual(['plc-b'])
+    expect(await call('plant/plc__read')).toBe('plc-b')
+  })
+
+  it('should keep the first server on namespace collisions between server names', async () => {
+    const flat = await client.createToolCatalog({ namespace: (_serverName, toolName) => toolName })
+
+    // One server name wins the whole entry; instances of the other are not mixed in
+    const read = flat.get('read')
+    const instances: Record<string, string[]> = { 'plant/plc': ['plc-a', 'plc-b'], 'plant/hvac': ['hvac'] }
+    expect(read?.serverIds.sort()).toEqual(instances[read?.serverName ?? ''])
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Tool name collision in catalog: read'))
+    flat.close()
+  })
+})
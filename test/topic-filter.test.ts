@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  dedupeTopicFilters,
+  isValidTopicFilter,
+  matchTopicFilter,
+  topicFilterCovers,
+} from '../src/shared/topic-filter.js'
+
+describe('isValidTopicFilter', () => {
+  it('should accept names and wildcards in whole levels', () => {
+    expect(isValidTopicFilter('#')).toBe(true)
+    expect(isValidTopicFilter('site/+/plc')).toBe(true)
+    expect(isValidTopicFilter('site/#')).toBe(true)
+  })
+
+  it('should reject misplaced wildcards and empty filters', () => {
+    expect(isValidTopicFilter('')).toBe(false)
+    expect(isValidTopicFilter('site/#/plc')).toBe(false)
+    expect(isValidTopicFilter('site/pl+')).toBe(false)
+    expect(isValidTopicFilter('site#')).toBe(false)
+  })
+})
+
+describe('matchTopicFilter', () => {
+  it('should match + against exactly one level', () => {
+    expect(matchTopicFilter('site/+/plc', 'site/line-1/plc')).toBe(true)
+    expect(matchTopicFilter('site/+/plc', 'site/a/b/plc')).toBe(false)
+    expect(matchTopicFilter('site/+', 'site')).toBe(false)
+  })
+
+  it('should match # against any remaining levels, including none', () => {
+    expect(matchTopicFilter('#', 'site/line-1/plc')).toBe(true)
+    expect(matchTopicFilter('site/#', 'site/line-1/plc')).toBe(true)
+    expect(matchTopicFilter('site/#', 'site')).toBe(true)
+    expect(matchTopicFilter('site/#', 'office/printer')).toBe(false)
+  })
+
+  it('should compare literal levels exactly', () => {
+    expect(matchTopicFilter('site/plc', 'site/plc')).toBe(true)
+    expect(matchTopicFilter('site/plc', 'site/plc/extra')).toBe(false)
+  })
+})
+
+describe('topicFilterCovers', () => {
+  it('should detect filters that contain another', () => {
+    expect(topicFilterCovers('#', 'site/+/plc')).toBe(true)
+    expect(topicFilterCovers('site/#', 'site/+/plc')).toBe(true)
+    expect(topicFilterCovers('site/+/plc', 'site/line-1/plc')).toBe(true)
+    expect(topicFilterCovers('site/#', 'site/#')).toBe(true)
+  })
+
+  it('should not treat narrower filters as covering wider ones', () => {
+    expect(topicFilterCovers('site/+/plc', 'site/#')).toBe(false)
+    expect(topicFilterCovers('site/line-1/plc', 'site/+/plc')).toBe(false)
+    expect(topicFilterCovers('site/+', 'site/+/plc')).toBe(false)
+  })
+})
+
+describe('dedupeTopicFilters', () => {
+  it('should drop duplicates and covered filters', () => {
+    expect(dedupeTopicFilters(['site/+/plc', 'office/#', 'site/#', 'office/#'])).toEqual(['office/#', 'site/#'])
+    expect(dedupeTopicFilters(['a/b', '#', 'c'])).toEqual(['#'])
+  })
+
+  it('should keep disjoint filters in order', () => {
+    expect(dedupeTopicFilters(['site/a/#', 'site/b/#'])).toEqual(['site/a/#', 'site/b/#'])
+  })
+})
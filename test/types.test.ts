@@ -4,7 +4,16 @@ import {
   JSONRPCResponseSchema,
   JSONRPCNotificationSchema,
   ToolSchema,
+  CallToolResultSchema,
+  ContentBlockSchema,
   ResourceSchema,
+  PromptSchema,
+  GetPromptRequestSchema,
+  SetLevelRequestSchema,
+  LoggingMessageNotificationSchema,
+  CreateMessageRequestSchema,
+  ListRootsResultSchema,
+  CompleteRequestSchema,
   ErrorCode,
 } from '../src/types.js'
 
@@ -143,6 +152,73 @@ describe('Types and Schemas', () => {
       const result = ToolSchema.safeParse(tool)
       expect(result.success).toBe(false)
     })
+
+    it('should validate title, annotations and output schema', () => {
+      const tool = {
+        name: 'delete-file',
+        title: 'Delete File',
+        inputSchema: { type: 'object' },
+        outputSchema: { type: 'object', properties: { deleted: { type: 'boolean' } } },
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+      }
+      const result = ToolSchema.safeParse(tool)
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject non-boolean annotation hints', () => {
+      const tool = {
+        name: 'test-tool',
+        inputSchema: {},
+        annotations: { readOnlyHint: 'yes' },
+      }
+      const result = ToolSchema.safeParse(tool)
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('ContentBlockSchema', () => {
+    it('should validate each content type', () => {
+      const blocks = [
+        { type: 'text', text: 'hello' },
+        { type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' },
+        { type: 'audio', data: 'UklGRg==', mimeType: 'audio/wav', annotations: { audience: ['user'] } },
+        { type: 'resource', resource: { uri: 'file:///a.txt', mimeType: 'text/plain', text: 'a' } },
+        { type: 'resource', resource: { uri: 'file:///a.bin', blob: 'AAEC' } },
+        { type: 'resource_link', uri: 'device://dev-1/telemetry', name: 'Telemetry' },
+      ]
+      for (const block of blocks) {
+        expect(ContentBlockSchema.safeParse(block).success).toBe(true)
+      }
+    })
+
+    it('should reject malformed blocks', () => {
+      const blocks = [
+        { type: 'text' },
+        { type: 'image', data: 'not base64!', mimeType: 'image/png' },
+        { type: 'image', data: 'iVBORw0KGgo=' },
+        { type: 'resource', resource: { uri: 'file:///a.txt' } },
+        { type: 'resource_link', uri: 'device://dev-1/telemetry' },
+        { type: 'video', data: 'AAEC', mimeType: 'video/mp4' },
+      ]
+      for (const block of blocks) {
+        expect(ContentBlockSchema.safeParse(block).success).toBe(false)
+      }
+    })
+  })
+
+  describe('CallToolResultSchema', () => {
+    it('should validate a result with structured content', () => {
+      const result = CallToolResultSchema.safeParse({
+        content: [{ type: 'text', text: '{"temperature":21.5}' }],
+        structuredContent: { temperature: 21.5 },
+      })
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject non-object structured content', () => {
+      const result = CallToolResultSchema.safeParse({ content: [], structuredContent: 'hot' })
+      expect(result.success).toBe(false)
+    })
   })
 
   describe('ResourceSchema', () => {
@@ -175,6 +251,160 @@ describe('Types and Schemas', () => {
     })
   })
 
+  describe('PromptSchema', () => {
+    it('should validate a prompt with arguments', () => {
+      const prompt = {
+        name: 'summarize',
+        description: 'Summarize a device log',
+        arguments: [
+          { name: 'deviceId', description: 'Device identifier', required: true },
+          { name: 'style' },
+        ],
+      }
+      const result = PromptSchema.safeParse(prompt)
+      expect(result.success).toBe(true)
+    })
+
+    it('should validate prompt with minimal fields', () => {
+      const result = PromptSchema.safeParse({ name: 'minimal' })
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject prompt argument without name', () => {
+      const prompt = {
+        name: 'broken',
+        arguments: [{ description: 'No name' }],
+      }
+      const result = PromptSchema.safeParse(prompt)
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('GetPromptRequestSchema', () => {
+    it('should validate a prompts/get request', () => {
+      const request = {
+        jsonrpc: '2.0',
+        id: 'req-1',
+        method: 'prompts/get',
+        params: { name: 'summarize', arguments: { deviceId: 'dev-1' } },
+      }
+      const result = GetPromptRequestSchema.safeParse(request)
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject non-string argument values', () => {
+      const request = {
+        jsonrpc: '2.0',
+        id: 'req-1',
+        method: 'prompts/get',
+        params: { name: 'summarize', arguments: { count: 3 } },
+      }
+      const result = GetPromptRequestSchema.safeParse(request)
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('Logging schemas', () => {
+    it('should validate logging/setLevel with an RFC 5424 level', () => {
+      const request = {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'logging/setLevel',
+        params: { level: 'warning' },
+      }
+      expect(SetLevelRequestSchema.safeParse(request).success).toBe(true)
+    })
+
+    it('should reject unknown log levels', () => {
+      const request = {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'logging/setLevel',
+        params: { level: 'verbose' },
+      }
+      expect(SetLevelRequestSchema.safeParse(request).success).toBe(false)
+    })
+
+    it('should validate notifications/message with arbitrary data', () => {
+      const notification = {
+        jsonrpc: '2.0',
+        method: 'notifications/message',
+        params: { level: 'error', logger: 'plc', data: { code: 42 } },
+      }
+      expect(LoggingMessageNotificationSchema.safeParse(notification).success).toBe(true)
+    })
+  })
+
+  describe('Sampling and roots schemas', () => {
+    it('should validate a sampling/createMessage request', () => {
+      const request = {
+        jsonrpc: '2.0',
+        id: 'srv-1',
+        method: 'sampling/createMessage',
+        params: {
+          messages: [{ role: 'user', content: { type: 'text', text: 'Summarize the alarms' } }],
+          modelPreferences: { hints: [{ name: 'claude' }], speedPriority: 0.5 },
+          maxTokens: 256,
+        },
+      }
+      expect(CreateMessageRequestSchema.safeParse(request).success).toBe(true)
+    })
+
+    it('should require maxTokens', () => {
+      const request = {
+        jsonrpc: '2.0',
+        id: 'srv-1',
+        method: 'sampling/createMessage',
+        params: { messages: [] },
+      }
+      expect(CreateMessageRequestSchema.safeParse(request).success).toBe(false)
+    })
+
+    it('should validate a roots/list result', () => {
+      const result = { roots: [{ uri: 'file:///home/user/project', name: 'Project' }] }
+      expect(ListRootsResultSchema.safeParse(result).success).toBe(true)
+    })
+  })
+
+  describe('CompleteRequestSchema', () => {
+    it('should validate prompt and resource references', () => {
+      const promptRequest = {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'completion/complete',
+        params: {
+          ref: { type: 'ref/prompt', name: 'summarize-logs' },
+          argument: { name: 'deviceId', value: 'dev-' },
+        },
+      }
+      const resourceRequest = {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'completion/complete',
+        params: {
+          ref: { type: 'ref/resource', uri: 'device://{id}/telemetry' },
+          argument: { name: 'id', value: '4' },
+          context: { arguments: { site: 'north' } },
+        },
+      }
+      expect(CompleteRequestSchema.safeParse(promptRequest).success).toBe(true)
+      expect(CompleteRequestSchema.safeParse(resourceRequest).success).toBe(true)
+    })
+
+    it('should reject unknown reference types', () => {
+      const request = {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'completion/complete',
+        params: {
+          ref: { type: 'ref/tool', name: 'add' },
+          argument: { name: 'a', value: '' },
+        },
+      }
+      expect(CompleteRequestSchema.safeParse(request).success).toBe(false)
+    })
+  })
+
   describe('ErrorCode', () => {
     it('should have correct JSON-RPC error codes', () => {
       expect(ErrorCode.PARSE_ERROR).toBe(-32700)
@@ -188,6 +418,12 @@ describe('Types and Schemas', () => {
       expect(ErrorCode.INVALID_MESSAGE).toBe(-32000)
       expect(ErrorCode.TOOL_NOT_FOUND).toBe(-32001)
       expect(ErrorCode.RESOURCE_NOT_FOUND).toBe(-32002)
+      expect(ErrorCode.PROMPT_NOT_FOUND).toBe(-32003)
+      expect(ErrorCode.PERMISSION_DENIED).toBe(-32004)
+      expect(ErrorCode.RATE_LIMITED).toBe(-32005)
+      expect(ErrorCode.QUEUE_FULL).toBe(-32006)
+      expect(ErrorCode.REQUEST_TIMEOUT).toBe(-32007)
+      expect(ErrorCode.SERVER_SHUTTING_DOWN).toBe(-32008)
     })
   })
 })
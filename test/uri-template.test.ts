@@ -0,0 +1,90 @@
+import { describe, it, expect } from '@jest/globals'
+import { UriTemplate } from '../src/shared/uri-template.js'
+
+describe('UriTemplate', () => {
+  describe('constructor', () => {
+    it('should collect variable names', () => {
+      const template = new UriTemplate('device://{site}/{id}/telemetry')
+      expect(template.variableNames).toEqual(['site', 'id'])
+    })
+
+    it('should reject duplicate variables', () => {
+      expect(() => new UriTemplate('device://{id}/{id}')).toThrow('Duplicate variable')
+    })
+
+    it('should reject unsupported operators', () => {
+      expect(() => new UriTemplate('device://{?id}')).toThrow('Unsupported or malformed')
+      expect(() => new UriTemplate('device://{id')).toThrow('Unsupported or malformed')
+    })
+  })
+
+  describe('isTemplate', () => {
+    it('should detect template expressions', () => {
+      expect(UriTemplate.isTemplate('device://{id}/telemetry')).toBe(true)
+      expect(UriTemplate.isTemplate('device://dev-1/telemetry')).toBe(false)
+    })
+  })
+
+  describe('match', () => {
+    it('should extract simple variables', () => {
+      const template = new UriTemplate('device://{id}/telemetry')
+      expect(template.match('device://dev-1/telemetry')).toEqual({ id: 'dev-1' })
+    })
+
+    it('should not let simple variables span path segments', () => {
+      const template = new UriTemplate('device://{id}/telemetry')
+      expect(template.match('device://a/b/telemetry')).toBeNull()
+    })
+
+    it('should percent-decode simple variables', () => {
+      const template = new UriTemplate('greeting://{name}')
+      expect(template.match('greeting://J%C3%BCrgen%20M')).toEqual({ name: 'Jürgen M' })
+    })
+
+    it('should allow reserved expansion to span path segments', () => {
+      const template = new UriTemplate('file:///{+path}')
+      expect(template.match('file:///var/log/app.log')).toEqual({ path: 'var/log/app.log' })
+    })
+
+    it('should match fragment expansion', () => {
+      const template = new UriTemplate('doc://manual{#section}')
+      expect(template.match('doc://manual#install')).toEqual({ section: 'install' })
+    })
+
+    it('should return null for non-matching URIs', () => {
+      const template = new UriTemplate('device://{id}/telemetry')
+      expect(template.match('device://dev-1/status')).toBeNull()
+      expect(template.match('sensor://dev-1/telemetry')).toBeNull()
+    })
+
+    it('should treat regex characters in literals literally', () => {
+      const template = new UriTemplate('data://v1.0/{id}')
+      expect(template.match('data://v1x0/abc')).toBeNull()
+      expect(template.match('data://v1.0/abc')).toEqual({ id: 'abc' })
+    })
+  })
+
+  describe('expand', () => {
+    it('should encode simple variables', () => {
+      const template = new UriTemplate('greeting://{name}')
+      expect(template.expand({ name: 'a/b c' })).toBe('greeting://a%2Fb%20c')
+    })
+
+    it('should keep reserved characters in reserved expansion', () => {
+      const template = new UriTemplate('file:///{+path}')
+      expect(template.expand({ path: 'var/log/app.log' })).toBe('file:///var/log/app.log')
+    })
+
+    it('should prefix fragment expansion and skip undefined values', () => {
+      const template = new UriTemplate('doc://manual{#section}')
+      expect(template.expand({ section: 'install' })).toBe('doc://manual#install')
+      expect(template.expand({})).toBe('doc://manual')
+    })
+
+    it('should round-trip through match', () => {
+      const template = new UriTemplate('device://{site}/{id}')
+      const uri = template.expand({ site: 'north hall', id: 42 })
+      expect(template.match(uri)).toEqual({ site: 'north hall', id: '42' })
+    })
+  })
+})
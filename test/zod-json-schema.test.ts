@@ -0,0 +1,120 @@
+import { describe, it, expect } from '@jest/globals'
+import { z } from 'zod'
+import { isZodSchema, zodToJsonSchema } from '../src/shared/zod-json-schema.js'
+
+describe('zodToJsonSchema', () => {
+  it('should convert an object with required and optional properties', () => {
+    const schema = z.object({
+      a: z.number().describe('First number'),
+      b: z.number().optional(),
+      label: z.string().default('sum'),
+    })
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        a: { type: 'number', description: 'First number' },
+        b: { type: 'number' },
+        label: { type: 'string', default: 'sum' },
+      },
+      required: ['a'],
+    })
+  })
+
+  it('should convert string and number constraints', () => {
+    expect(
+      zodToJsonSchema(
+        z
+          .string()
+          .min(1)
+          .max(10)
+          .regex(/^[a-z]+$/),
+      ),
+    ).toEqual({
+      type: 'string',
+      minLength: 1,
+      maxLength: 10,
+      pattern: '^[a-z]+$',
+    })
+    expect(zodToJsonSchema(z.string().email())).toEqual({ type: 'string', format: 'email' })
+    expect(zodToJsonSchema(z.number().int().min(0).lt(100))).toEqual({
+      type: 'integer',
+      minimum: 0,
+      exclusiveMaximum: 100,
+    })
+  })
+
+  it('should convert enums, literals and native enums', () => {
+    enum Mode {
+      Fast,
+      Slow,
+    }
+    expect(zodToJsonSchema(z.enum(['add', 'subtract']))).toEqual({ type: 'string', enum: ['add', 'subtract'] })
+    expect(zodToJsonSchema(z.literal('on'))).toEqual({ const: 'on' })
+    expect(zodToJsonSchema(z.nativeEnum(Mode))).toEqual({ enum: [0, 1] })
+  })
+
+  it('should convert arrays, records and unions', () => {
+    expect(zodToJsonSchema(z.array(z.string()).min(1))).toEqual({
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1,
+    })
+    expect(zodToJsonSchema(z.record(z.number()))).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'number' },
+    })
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'number' }],
+    })
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'null' }],
+    })
+  })
+
+  it('should unwrap refinements and transforms', () => {
+    const schema = z
+      .object({ min: z.number(), max: z.number() })
+      .refine((value) => value.min <= value.max, 'min must not exceed max')
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: { min: { type: 'number' }, max: { type: 'number' } },
+      required: ['min', 'max'],
+    })
+  })
+
+  it('should mark strict objects as closed', () => {
+    const schema = z.object({ id: z.string() }).strict()
+    expect(zodToJsonSchema(schema).additionalProperties).toBe(false)
+  })
+
+  it('should fall back to an unconstrained schema for unsupported types', () => {
+    expect(zodToJsonSchema(z.any())).toEqual({})
+    expect(zodToJsonSchema(z.unknown().describe('Anything'))).toEqual({ description: 'Anything' })
+  })
+})
+
+describe('isZodSchema', () => {
+  it('should recognize Zod schemas', () => {
+    expect(isZodSchema(z.object({ id: z.string() }))).toBe(true)
+    expect(isZodSchema(z.string().optional())).toBe(true)
+  })
+
+  it('should recognize schemas from another copy of zod', () => {
+    const schema = z.object({ id: z.string() })
+    const foreign = Object.assign(Object.create(null), {
+      _def: schema._def,
+      safeParse: (value: unknown) => schema.safeParse(value),
+    })
+
+    expect(foreign instanceof z.ZodType).toBe(false)
+    expect(isZodSchema(foreign)).toBe(true)
+  })
+
+  it('should reject JSON Schemas and other values', () => {
+    expect(isZodSchema({ type: 'object', properties: { id: { type: 'string' } } })).toBe(false)
+    expect(isZodSchema(() => ({ content: [] }))).toBe(false)
+    expect(isZodSchema(undefined)).toBe(false)
+  })
+})